@@ -0,0 +1,53 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { findConfigFile, globToRegExp, loadConfig } from "./config.ts";
+
+let dir: string | undefined;
+
+afterEach(() => {
+	if (dir) rmSync(dir, { recursive: true, force: true });
+	dir = undefined;
+});
+
+test("globs match within and across folders", () => {
+	const matches = (glob: string, path: string) =>
+		globToRegExp(glob).test(path);
+
+	expect(matches("*.ts", "a.ts")).toBe(true);
+	expect(matches("*.ts", "db/a.ts")).toBe(false);
+	expect(matches("db/**", "db/a.ts")).toBe(true);
+	expect(matches("db/**", "db/sub/a.ts")).toBe(true);
+	expect(matches("**/a.ts", "a.ts")).toBe(true);
+	expect(matches("**/a.ts", "db/sub/a.ts")).toBe(true);
+	expect(matches("?.ts", "a.ts")).toBe(true);
+	expect(matches("a.ts", "aXts")).toBe(false);
+	expect(matches("*_delete*", "global_db_delete_rows")).toBe(true);
+});
+
+test("finds and loads the config file", async () => {
+	dir = mkdtempSync(join(tmpdir(), "mcp-loader-"));
+	expect(await findConfigFile(dir)).toBeUndefined();
+
+	const path = join(dir, "mcp-loader.config.mjs");
+	writeFileSync(
+		path,
+		`export default { roots: [{ dir: "tools", prefix: "t" }], timeoutMs: 5 };\n`,
+	);
+	expect(await findConfigFile(dir)).toBe(path);
+
+	// Root folders are relative to the config file
+	expect(await loadConfig(path)).toEqual({
+		roots: [{ dir: join(dir, "tools"), prefix: "t" }],
+		timeoutMs: 5,
+	});
+});
+
+test("rejects a config without a default export", async () => {
+	dir = mkdtempSync(join(tmpdir(), "mcp-loader-"));
+	const path = join(dir, "mcp-loader.config.mjs");
+	writeFileSync(path, "export const roots = [];\n");
+
+	await expect(loadConfig(path)).rejects.toThrow("must export a config object");
+});
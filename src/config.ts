@@ -0,0 +1,67 @@
+import { stat } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { pathToFileURL } from "url";
+import type { LoaderConfig } from "./tool.ts";
+
+// Looked up in the working directory when --config is not given
+const CONFIG_FILES = [
+	"mcp-loader.config.ts",
+	"mcp-loader.config.js",
+	"mcp-loader.config.mjs",
+];
+
+// Function to turn a glob into a regular expression: "**" matches across
+// folders, "*" within a path segment or name, "?" a single character
+export function globToRegExp(glob: string) {
+	let pattern = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]!;
+		if (char === "*" && glob[i + 1] === "*") {
+			// "**/" also matches no folder at all
+			if (glob[i + 2] === "/") {
+				pattern += "(?:.*/)?";
+				i += 2;
+			} else {
+				pattern += ".*";
+				i++;
+			}
+		} else if (char === "*") {
+			pattern += "[^/]*";
+		} else if (char === "?") {
+			pattern += "[^/]";
+		} else {
+			pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
+
+// Function to find the config file in a folder
+export async function findConfigFile(cwd = process.cwd()) {
+	for (const name of CONFIG_FILES) {
+		const path = join(cwd, name);
+		try {
+			if ((await stat(path)).isFile()) return path;
+		} catch {}
+	}
+	return undefined;
+}
+
+// Load a config file's default export. Root folders are resolved relative to
+// the config file.
+export async function loadConfig(path: string): Promise<LoaderConfig> {
+	const configPath = resolve(path);
+	const module = await import(pathToFileURL(configPath).href);
+	const config = module.default;
+	if (!config || typeof config !== "object") {
+		throw new Error(`${path} must export a config object as default`);
+	}
+
+	return {
+		...config,
+		roots: config.roots?.map((root: { dir: string }) => ({
+			...root,
+			dir: resolve(dirname(configPath), root.dir),
+		})),
+	};
+}
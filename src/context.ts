@@ -0,0 +1,121 @@
+import type { RequestHandlerExtra } from "@socotra/modelcontextprotocol-sdk/shared/protocol.js";
+import {
+	CreateMessageResultSchema,
+	ElicitResultSchema,
+	type ServerNotification,
+	type ServerRequest,
+} from "@socotra/modelcontextprotocol-sdk/types.js";
+import { z } from "zod";
+import type {
+	ElicitResult,
+	LogLevel,
+	SampleOptions,
+	ToolContext,
+} from "./tool.ts";
+
+type Extra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Function to turn a zod shape into the flat JSON Schema elicitation expects
+function toRequestedSchema(shape: Record<string, z.ZodTypeAny>) {
+	const { $schema, additionalProperties, ...schema } = z.toJSONSchema(
+		z.object(shape),
+	) as Record<string, unknown>;
+	return schema as {
+		type: "object";
+		properties: Record<string, any>;
+		required?: string[];
+	};
+}
+
+// Build the context passed to execute from the SDK's request extra.
+// `signal` aborts on cancellation and timeouts (see executeTool).
+export function createToolContext(
+	extra: Extra,
+	signal: AbortSignal,
+	logger: string,
+	env: Record<string, string | undefined> = process.env,
+	// Whether the session's logging level filters out a level
+	isMessageIgnored: (level: LogLevel, sessionId?: string) => boolean = () =>
+		false,
+): ToolContext {
+	const progressToken = extra._meta?.progressToken;
+
+	const log =
+		(level: LogLevel) =>
+		async (message: string, data?: Record<string, unknown>) => {
+			// Sent through the request rather than the server, so the message
+			// stays tied to it; the level filter has to be applied here then
+			if (isMessageIgnored(level, extra.sessionId)) return;
+			await extra.sendNotification({
+				method: "notifications/message",
+				params: {
+					level,
+					logger,
+					data: data ? { message, ...data } : message,
+				},
+			});
+		};
+
+	return {
+		signal,
+		sessionId: extra.sessionId,
+		requestId: extra.requestId,
+		env,
+
+		// Progress is only sent when the client asked for it with a progress token
+		async reportProgress(progress, total, message) {
+			if (progressToken === undefined) return;
+			await extra.sendNotification({
+				method: "notifications/progress",
+				params: { progressToken, progress, total, message },
+			});
+		},
+
+		log: {
+			debug: log("debug"),
+			info: log("info"),
+			warn: log("warning"),
+			error: log("error"),
+		},
+
+		async sample(prompt: string | SampleOptions) {
+			const options = typeof prompt === "string" ? { prompt } : prompt;
+			const result = await extra.sendRequest(
+				{
+					method: "sampling/createMessage",
+					params: {
+						messages: [
+							{
+								role: "user",
+								content: { type: "text", text: options.prompt },
+							},
+						],
+						systemPrompt: options.systemPrompt,
+						maxTokens: options.maxTokens ?? 1000,
+						temperature: options.temperature,
+					},
+				},
+				CreateMessageResultSchema,
+				{ signal },
+			);
+			return result.content.type === "text" ? result.content.text : "";
+		},
+
+		async elicit(message, shape) {
+			const result = await extra.sendRequest(
+				{
+					method: "elicitation/create",
+					params: { message, requestedSchema: toRequestedSchema(shape) },
+				},
+				ElicitResultSchema,
+				{ signal },
+			);
+			if (result.action !== "accept") {
+				return { action: result.action };
+			}
+			// Clients validate too, but don't trust them
+			const content = await z.object(shape).parseAsync(result.content ?? {});
+			return { action: "accept", content } as ElicitResult<typeof shape>;
+		},
+	};
+}
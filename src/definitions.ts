@@ -0,0 +1,95 @@
+import type { z } from "zod";
+import type { ToolAnnotations } from "./tool.ts";
+
+// Type for our tool definition
+export interface ToolDefinition {
+	description: string;
+	args?: Record<string, z.ZodTypeAny>;
+	output?: Record<string, z.ZodTypeAny>;
+	timeoutMs?: number;
+	isolate?: boolean;
+	concurrency?: number;
+	title?: string;
+	annotations?: ToolAnnotations;
+	enabled?: boolean | (() => boolean);
+	execute: (args: unknown, context?: unknown) => Promise<unknown> | unknown;
+}
+
+// Type for our resource definition
+export interface ResourceDefinition {
+	uri: string;
+	title?: string;
+	description?: string;
+	mimeType?: string;
+	read: (uri: URL, context?: unknown) => Promise<unknown> | unknown;
+}
+
+// Type for our resource template definition
+export interface ResourceTemplateDefinition {
+	uriTemplate: string;
+	title?: string;
+	description?: string;
+	mimeType?: string;
+	list?: (context?: unknown) => Promise<unknown[]> | unknown[];
+	read: (
+		uri: URL,
+		variables: Record<string, string | string[]>,
+		context?: unknown,
+	) => Promise<unknown> | unknown;
+}
+
+// Type for our prompt definition
+export interface PromptDefinition {
+	title?: string;
+	description?: string;
+	args?: Record<string, z.ZodTypeAny>;
+	render: (args: unknown, context?: unknown) => Promise<unknown> | unknown;
+}
+
+// Type guard to check if something is a tool definition
+export function isToolDefinition(value: unknown): value is ToolDefinition {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"description" in value &&
+		"execute" in value &&
+		typeof (value as ToolDefinition).description === "string" &&
+		typeof (value as ToolDefinition).execute === "function"
+	);
+}
+
+// Type guard to check if something is a resource definition
+export function isResourceDefinition(value: unknown): value is ResourceDefinition {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"uri" in value &&
+		"read" in value &&
+		typeof (value as ResourceDefinition).uri === "string" &&
+		typeof (value as ResourceDefinition).read === "function"
+	);
+}
+
+// Type guard to check if something is a resource template definition
+export function isResourceTemplateDefinition(
+	value: unknown,
+): value is ResourceTemplateDefinition {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"uriTemplate" in value &&
+		"read" in value &&
+		typeof (value as ResourceTemplateDefinition).uriTemplate === "string" &&
+		typeof (value as ResourceTemplateDefinition).read === "function"
+	);
+}
+
+// Type guard to check if something is a prompt definition
+export function isPromptDefinition(value: unknown): value is PromptDefinition {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"render" in value &&
+		typeof (value as PromptDefinition).render === "function"
+	);
+}
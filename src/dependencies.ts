@@ -0,0 +1,163 @@
+import { readFile, stat } from "fs/promises";
+import { createRequire, register } from "module";
+import { basename, dirname, isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+
+// Matches the specifier of static imports, re-exports, side-effect imports
+// and dynamic import() calls
+const IMPORT_SPECIFIER =
+	/(?:\bimport\s*(?:[\w*{}\s,$]+\s*from\s*)?|\bexport\s*[\w*{}\s,$]*\s*from\s*|\bimport\s*\(\s*)["']([^"']+)["']/g;
+
+// Extensions tried when resolving extensionless or ".js"-for-".ts" imports
+const EXTENSIONS = [".ts", ".tsx", ".mts", ".js", ".mjs"];
+
+// Files whose change affects every tool: compiler settings, package
+// metadata and environment variables
+export function isConfigFile(file: string) {
+	const name = basename(file);
+	return (
+		name === "package.json" ||
+		/^tsconfig(\..+)?\.json$/.test(name) ||
+		name === ".env" ||
+		name.startsWith(".env.")
+	);
+}
+
+async function isFile(path: string) {
+	try {
+		return (await stat(path)).isFile();
+	} catch {
+		return false;
+	}
+}
+
+// Resolve a local import specifier to a file, the way TypeScript-aware
+// runtimes do: exact path, ".js" written for a ".ts" file, added extension,
+// or a folder's index file
+async function resolveLocalImport(specifier: string, fromFile: string) {
+	const base = isAbsolute(specifier)
+		? specifier
+		: resolve(dirname(fromFile), specifier);
+	const stem = base.replace(/\.(js|mjs|cjs)$/, "");
+	const candidates = [
+		base,
+		...EXTENSIONS.map((extension) => `${stem}${extension}`),
+		...EXTENSIONS.map((extension) => `${base}/index${extension}`),
+	];
+	for (const candidate of candidates) {
+		if (await isFile(candidate)) {
+			return candidate;
+		}
+	}
+	return undefined;
+}
+
+// Find every local file a module imports, directly or transitively.
+// Package imports (node_modules, builtins) are not followed.
+export async function findLocalDependencies(file: string) {
+	const dependencies = new Set<string>();
+	const queue = [file];
+
+	while (queue.length > 0) {
+		const current = queue.pop()!;
+		let source: string;
+		try {
+			source = await readFile(current, "utf8");
+		} catch {
+			continue;
+		}
+
+		for (const match of source.matchAll(IMPORT_SPECIFIER)) {
+			const specifier = match[1]!;
+			if (!specifier.startsWith(".") && !isAbsolute(specifier)) continue;
+
+			const dependency = await resolveLocalImport(specifier, current);
+			if (
+				dependency &&
+				dependency !== file &&
+				!dependency.includes("/node_modules/") &&
+				!dependencies.has(dependency)
+			) {
+				dependencies.add(dependency);
+				queue.push(dependency);
+			}
+		}
+	}
+
+	return dependencies;
+}
+
+// Module resolve hook: a local file imported from a module loaded with a
+// "?t=<version>" cache buster gets the same cache buster, so a reloaded tool
+// gets fresh instances of its helpers instead of the cached ones
+const freshImportsHook = `
+export async function resolve(specifier, context, nextResolve) {
+	const result = await nextResolve(specifier, context);
+	if (
+		!context.parentURL?.startsWith("file:") ||
+		!result.url.startsWith("file:") ||
+		result.url.includes("/node_modules/")
+	) {
+		return result;
+	}
+	const version = new URL(context.parentURL).searchParams.get("t");
+	const url = new URL(result.url);
+	if (!version || url.search) {
+		return result;
+	}
+	url.searchParams.set("t", version);
+	return { ...result, url: url.href };
+}
+`;
+
+// Bun has no working module hooks (register() exists but does nothing), and
+// ignores the query of file: URLs when caching modules. It does cache plain
+// paths with their query separately, and drops modules deleted from
+// require.cache.
+const isBun = typeof process.versions.bun === "string";
+const require = createRequire(import.meta.url);
+
+// Version each local import was last evicted for, so files reloaded in the
+// same batch share fresh instances of their helpers on Bun too
+const evictedVersions = new Map<string, number>();
+
+// Function to build the specifier to import a tool file with, with a cache
+// buster when a version is given
+export function toImportUrl(file: string, version?: number) {
+	const url = isBun ? file : pathToFileURL(file).href;
+	return version === undefined ? url : `${url}?t=${version}`;
+}
+
+// Function to make the next import of a tool file load fresh copies of its
+// local imports. Only needed on Bun; on Node the resolve hook below does it.
+export function evictLocalImports(
+	dependencies: Iterable<string>,
+	version: number,
+) {
+	if (!isBun) return;
+	for (const dependency of dependencies) {
+		if (evictedVersions.get(dependency) === version) continue;
+		evictedVersions.set(dependency, version);
+		delete require.cache[dependency];
+	}
+}
+
+let freshImportsEnabled = false;
+
+// Install the resolve hook once per process (Bun evicts instead, see
+// evictLocalImports). Returns false where neither works, in which case only
+// the tool file itself is re-imported.
+export function enableFreshLocalImports() {
+	if (freshImportsEnabled || isBun) return true;
+	if (typeof register !== "function") return false;
+	try {
+		register(
+			`data:text/javascript,${encodeURIComponent(freshImportsHook)}`,
+			import.meta.url,
+		);
+		freshImportsEnabled = true;
+	} catch {
+		return false;
+	}
+	return true;
+}
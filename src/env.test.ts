@@ -0,0 +1,70 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createEnvFiles } from "./env.ts";
+
+const KEYS = ["MCP_TEST_FOO", "MCP_TEST_SHELL", "MCP_TEST_PRELOADED"];
+
+let dir: string | undefined;
+
+afterEach(() => {
+	for (const key of KEYS) delete process.env[key];
+	if (dir) rmSync(dir, { recursive: true, force: true });
+	dir = undefined;
+});
+
+function writeEnv(source: string) {
+	dir ??= mkdtempSync(join(tmpdir(), "mcp-loader-"));
+	writeFileSync(join(dir, ".env"), source);
+	return dir;
+}
+
+test("loads .env on start and applies edits", async () => {
+	const envFiles = createEnvFiles(writeEnv("MCP_TEST_FOO=one\n"), () => {});
+	await envFiles.load();
+	expect(process.env.MCP_TEST_FOO).toBe("one");
+
+	writeEnv("MCP_TEST_FOO=two\n");
+	await envFiles.load();
+	expect(process.env.MCP_TEST_FOO).toBe("two");
+
+	writeEnv("");
+	await envFiles.load();
+	expect(process.env.MCP_TEST_FOO).toBeUndefined();
+});
+
+test("keeps variables set outside .env", async () => {
+	process.env.MCP_TEST_SHELL = "shell";
+	const envFiles = createEnvFiles(
+		writeEnv("MCP_TEST_SHELL=file\n"),
+		() => {},
+	);
+	await envFiles.load();
+	expect(process.env.MCP_TEST_SHELL).toBe("shell");
+
+	writeEnv("");
+	await envFiles.load();
+	expect(process.env.MCP_TEST_SHELL).toBe("shell");
+});
+
+// Bun loads .env into process.env before any of our code runs
+test("applies edits to variables preloaded from .env", async () => {
+	process.env.MCP_TEST_PRELOADED = "one";
+	const envFiles = createEnvFiles(
+		writeEnv("MCP_TEST_PRELOADED=one\n"),
+		() => {},
+	);
+	await envFiles.load();
+
+	writeEnv("MCP_TEST_PRELOADED=two\n");
+	await envFiles.load();
+	expect(process.env.MCP_TEST_PRELOADED).toBe("two");
+});
+
+test("recognizes its files", () => {
+	const envFiles = createEnvFiles("/project");
+	expect(envFiles.isEnvFile("/project/.env")).toBe(true);
+	expect(envFiles.isEnvFile("/project/.env.local")).toBe(true);
+	expect(envFiles.isEnvFile("/project/.env.example")).toBe(false);
+});
@@ -0,0 +1,74 @@
+import { readFile } from "fs/promises";
+import { join, resolve } from "path";
+import { parseEnv } from "util";
+
+// Files loaded into process.env, later ones winning
+const ENV_FILES = [".env", ".env.local"];
+
+// Load the .env files in a folder into process.env, and again whenever they
+// change. Variables set outside the files (e.g. in the shell) win over the
+// files; keys removed from the files are removed from process.env.
+export function createEnvFiles(
+	dir: string,
+	log: (...args: unknown[]) => void = console.error,
+) {
+	const files = ENV_FILES.map((name) => join(resolve(dir), name));
+
+	// process.env and the files' values when they were first loaded. Bun
+	// loads .env itself on startup, so a variable already set to the file's
+	// value came from the file.
+	let launchEnv: Record<string, string | undefined> | undefined;
+	let initialValues: Record<string, string> = {};
+
+	// Keys currently set from the files
+	let applied = new Set<string>();
+
+	async function read() {
+		const values: Record<string, string> = {};
+		for (const file of files) {
+			try {
+				Object.assign(values, parseEnv(await readFile(file, "utf8")));
+			} catch (e: any) {
+				if (e.code !== "ENOENT") {
+					log(`Failed to load ${file}:`, e.message || e);
+				}
+			}
+		}
+		return values;
+	}
+
+	function isSetOutside(key: string) {
+		return (
+			launchEnv !== undefined &&
+			key in launchEnv &&
+			launchEnv[key] !== initialValues[key]
+		);
+	}
+
+	return {
+		isEnvFile(path: string) {
+			return files.includes(resolve(path));
+		},
+
+		// Apply the files' current values to process.env
+		async load() {
+			const values = await read();
+			if (!launchEnv) {
+				launchEnv = { ...process.env };
+				initialValues = values;
+			}
+
+			for (const key of applied) {
+				if (!(key in values)) {
+					delete process.env[key];
+				}
+			}
+			applied = new Set();
+			for (const [key, value] of Object.entries(values)) {
+				if (isSetOutside(key)) continue;
+				process.env[key] = value;
+				applied.add(key);
+			}
+		},
+	};
+}
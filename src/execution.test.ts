@@ -0,0 +1,121 @@
+import { expect, test } from "bun:test";
+import { createLimiter, executeTool, ToolTimeoutError } from "./execution.ts";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Function to count how many runs are active at once
+function track() {
+	let active = 0;
+	const stats = { peak: 0, finished: 0 };
+	const run = async () => {
+		active++;
+		stats.peak = Math.max(stats.peak, active);
+		await sleep(5);
+		active--;
+		stats.finished++;
+	};
+	return { run, stats };
+}
+
+test("limiter never runs more than the limit", async () => {
+	const limited = createLimiter(1);
+	const { run, stats } = track();
+	const signal = new AbortController().signal;
+
+	// Each call starts another one the moment it finishes, while a waiter is
+	// being handed the slot
+	await Promise.all(
+		[1, 2, 3].map(() =>
+			limited(run, signal).then(() => limited(run, signal)),
+		),
+	);
+
+	expect(stats).toEqual({ peak: 1, finished: 6 });
+});
+
+test("limiter drops a waiter that gives up", async () => {
+	const limited = createLimiter(1);
+	const { run, stats } = track();
+	const controller = new AbortController();
+
+	const first = limited(run, new AbortController().signal);
+	const aborted = limited(run, controller.signal);
+	const last = limited(run, new AbortController().signal);
+	controller.abort(new Error("cancelled"));
+
+	await expect(aborted).rejects.toThrow("cancelled");
+	await Promise.all([first, last]);
+	expect(stats).toEqual({ peak: 1, finished: 2 });
+});
+
+test("limiter passes on a slot handed to a waiter that just gave up", async () => {
+	const limited = createLimiter(1);
+	const { run, stats } = track();
+	const controller = new AbortController();
+
+	// The first call aborts the waiter right before handing it the slot
+	const first = limited(async () => {
+		await sleep(5);
+		controller.abort(new Error("cancelled"));
+	}, new AbortController().signal);
+	const aborted = limited(run, controller.signal);
+	const last = limited(run, new AbortController().signal);
+
+	await expect(aborted).rejects.toThrow("cancelled");
+	await Promise.all([first, last]);
+	expect(stats).toEqual({ peak: 1, finished: 1 });
+});
+
+test("times out and aborts the tool's signal", async () => {
+	let toolSignal: AbortSignal | undefined;
+	const call = executeTool(
+		(signal) => {
+			toolSignal = signal;
+			return sleep(1000);
+		},
+		{ name: "slow", timeoutMs: 10 },
+	);
+
+	await expect(call).rejects.toBeInstanceOf(ToolTimeoutError);
+	expect(toolSignal?.aborted).toBe(true);
+});
+
+test("settles when the caller cancels", async () => {
+	const controller = new AbortController();
+	const call = executeTool(() => sleep(1000), {
+		name: "slow",
+		signal: controller.signal,
+	});
+	controller.abort(new Error("cancelled"));
+
+	await expect(call).rejects.toThrow("cancelled");
+});
+
+test("starts the timeout once a slot is free", async () => {
+	const limiter = createLimiter(1);
+	const first = executeTool(() => sleep(30), { name: "first", limiter });
+	const second = executeTool(async () => "done", {
+		name: "second",
+		timeoutMs: 20,
+		limiter,
+	});
+
+	await first;
+	expect(await second).toBe("done");
+});
+
+test("keeps the slot until a timed-out tool returns", async () => {
+	const limiter = createLimiter(1);
+	const { run, stats } = track();
+	const ignoresSignal = () => sleep(30).then(run);
+
+	const calls = [1, 2].map(() =>
+		executeTool(ignoresSignal, { name: "stubborn", timeoutMs: 10, limiter }),
+	);
+	for (const call of calls) {
+		await expect(call).rejects.toBeInstanceOf(ToolTimeoutError);
+	}
+	await sleep(100);
+
+	expect(stats).toEqual({ peak: 1, finished: 2 });
+});
@@ -0,0 +1,321 @@
+import { Worker } from "worker_threads";
+import type { Middleware, ToolCall, ToolContext } from "./tool.ts";
+
+// Thrown when a tool runs longer than its timeout
+export class ToolTimeoutError extends Error {
+	constructor(tool: string, timeoutMs: number) {
+		super(`Tool ${tool} timed out after ${timeoutMs}ms`);
+		this.name = "ToolTimeoutError";
+	}
+}
+
+// Thrown when an isolated tool's worker dies without returning a result
+export class ToolCrashError extends Error {
+	constructor(tool: string, reason: string) {
+		super(`Tool ${tool} crashed: ${reason}`);
+		this.name = "ToolCrashError";
+	}
+}
+
+// Function to wait until a signal aborts, rejecting with its reason
+function whenAborted(signal: AbortSignal) {
+	return new Promise<never>((_, reject) => {
+		if (signal.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		signal.addEventListener("abort", () => reject(signal.reason), {
+			once: true,
+		});
+	});
+}
+
+// Limit how many calls run at once; calls over the limit wait their turn
+// (or give up when their signal aborts while waiting)
+export function createLimiter(limit: number) {
+	let running = 0;
+	const waiting: Array<() => void> = [];
+
+	// A finished call hands its slot straight to the next waiter, so no call
+	// arriving in between can take it
+	const release = () => {
+		const next = waiting.shift();
+		if (next) {
+			next();
+		} else {
+			running--;
+		}
+	};
+
+	return async function limited<T>(
+		run: () => Promise<T>,
+		signal: AbortSignal,
+	): Promise<T> {
+		if (running >= limit) {
+			let granted = false;
+			let grant!: () => void;
+			const turn = new Promise<void>((resolve) => {
+				grant = () => {
+					granted = true;
+					resolve();
+				};
+				waiting.push(grant);
+			});
+			try {
+				await Promise.race([turn, whenAborted(signal)]);
+			} catch (e) {
+				// Aborted after the slot was handed over: pass it on
+				if (granted) {
+					release();
+				} else {
+					waiting.splice(waiting.indexOf(grant), 1);
+				}
+				throw e;
+			}
+		} else {
+			running++;
+		}
+
+		try {
+			return await run();
+		} finally {
+			release();
+		}
+	};
+}
+
+export type Limiter = ReturnType<typeof createLimiter>;
+
+export interface ExecuteOptions {
+	// Tool name, for error messages
+	name: string;
+	timeoutMs?: number;
+	// Aborted when the client cancels the request
+	signal?: AbortSignal;
+	limiter?: Limiter;
+}
+
+// Run a tool call with a timeout, client cancellation and a concurrency
+// limit. `run` gets a signal that aborts on timeout or cancellation; the call
+// settles at that point even if `run` ignores the signal, but keeps its
+// concurrency slot until `run` actually returns.
+export async function executeTool<T>(
+	run: (signal: AbortSignal) => Promise<T> | T,
+	options: ExecuteOptions,
+): Promise<T> {
+	const controller = new AbortController();
+	const cancel = () => controller.abort(options.signal?.reason);
+	options.signal?.addEventListener("abort", cancel, { once: true });
+	if (options.signal?.aborted) cancel();
+
+	let timeout: NodeJS.Timeout | undefined;
+	const start = async () => {
+		// The timeout covers running the tool, not waiting for a free slot
+		if (options.timeoutMs) {
+			timeout = setTimeout(
+				() =>
+					controller.abort(
+						new ToolTimeoutError(options.name, options.timeoutMs!),
+					),
+				options.timeoutMs,
+			);
+		}
+		return await run(controller.signal);
+	};
+
+	const task = options.limiter
+		? options.limiter(start, controller.signal)
+		: start();
+	// The call may settle on abort before the task does
+	task.catch(() => {});
+
+	try {
+		return await Promise.race([task, whenAborted(controller.signal)]);
+	} finally {
+		clearTimeout(timeout);
+		options.signal?.removeEventListener("abort", cancel);
+	}
+}
+
+// Run a call through middleware, outermost first, ending in the tool itself.
+// Middleware sees the call object the tool gets, so changes to call.args
+// reach the tool.
+export function runMiddleware(
+	middleware: Middleware[],
+	call: ToolCall,
+	run: (call: ToolCall) => Promise<unknown> | unknown,
+): Promise<unknown> {
+	const next = async (index: number): Promise<unknown> => {
+		const current = middleware[index];
+		if (!current) return run(call);
+
+		let called = false;
+		return current(call, () => {
+			if (called) {
+				throw new Error("next() called multiple times");
+			}
+			called = true;
+			return next(index + 1);
+		});
+	};
+	return next(0);
+}
+
+// Worker entry: import the tool module, run the export's execute and post
+// back the result or error. Context calls are forwarded to the parent, which
+// runs them against the real context.
+const workerSource = `
+const { parentPort, workerData } = require("worker_threads");
+const { moduleUrl, exportName, args, sessionId, requestId } = workerData;
+
+let nextId = 0;
+const pending = new Map();
+parentPort.on("message", ({ id, result, error }) => {
+	const call = pending.get(id);
+	pending.delete(id);
+	if (error) {
+		call?.reject(Object.assign(new Error(error.message), { name: error.name }));
+	} else {
+		call?.resolve(result);
+	}
+});
+const callParent = (method) => (...args) =>
+	new Promise((resolve, reject) => {
+		const id = nextId++;
+		pending.set(id, { resolve, reject });
+		parentPort.postMessage({ type: "call", id, method, args });
+	});
+
+const context = {
+	signal: new AbortController().signal,
+	sessionId,
+	requestId,
+	env: process.env,
+	reportProgress: callParent("reportProgress"),
+	log: {
+		debug: callParent("log.debug"),
+		info: callParent("log.info"),
+		warn: callParent("log.warn"),
+		error: callParent("log.error"),
+	},
+	sample: callParent("sample"),
+	elicit: async () => {
+		throw new Error("elicit() is not available in isolated tools");
+	},
+};
+
+(async () => {
+	try {
+		const module = await import(moduleUrl);
+		const tool = module[exportName];
+		const result = await tool.execute(args, context);
+		parentPort.postMessage({ type: "done", result });
+	} catch (e) {
+		parentPort.postMessage({
+			type: "failed",
+			error: { name: e?.name ?? "Error", message: e?.message ?? String(e) },
+		});
+	}
+})();
+`;
+
+// Context methods an isolated tool can call through the parent
+const forwardedCalls: Record<
+	string,
+	(context: ToolContext, args: any[]) => Promise<unknown>
+> = {
+	reportProgress: (context, args) =>
+		context.reportProgress(args[0], args[1], args[2]),
+	"log.debug": (context, args) => context.log.debug(args[0], args[1]),
+	"log.info": (context, args) => context.log.info(args[0], args[1]),
+	"log.warn": (context, args) => context.log.warn(args[0], args[1]),
+	"log.error": (context, args) => context.log.error(args[0], args[1]),
+	sample: (context, args) => context.sample(args[0]),
+};
+
+export interface IsolatedCall {
+	// Tool name, for error messages
+	name: string;
+	// URL of the tool module and the export holding the definition
+	moduleUrl: string;
+	exportName: string;
+	args: unknown;
+	context: ToolContext;
+	// The worker's process.env; a copy of the parent's when omitted
+	env?: Record<string, string | undefined>;
+}
+
+// Run a tool's execute in its own worker thread. The worker is terminated
+// when the context's signal aborts; process.exit() or a crash inside the tool only
+// ends the worker and comes back as an error.
+export function runIsolated(call: IsolatedCall) {
+	return new Promise<unknown>((resolve, reject) => {
+		const worker = new Worker(workerSource, {
+			eval: true,
+			env: call.env,
+			workerData: {
+				moduleUrl: call.moduleUrl,
+				exportName: call.exportName,
+				args: call.args,
+				sessionId: call.context.sessionId,
+				requestId: call.context.requestId,
+			},
+		});
+		const { signal } = call.context;
+		let settled = false;
+
+		const settle = (finish: () => void) => {
+			if (settled) return;
+			settled = true;
+			signal.removeEventListener("abort", abort);
+			finish();
+			worker.terminate();
+		};
+		const abort = () => settle(() => reject(signal.reason));
+		signal.addEventListener("abort", abort, { once: true });
+		if (signal.aborted) abort();
+
+		const forward = async (id: number, method: string, args: any[]) => {
+			try {
+				const result = await forwardedCalls[method]!(call.context, args);
+				worker.postMessage({ id, result });
+			} catch (e: any) {
+				worker.postMessage({
+					id,
+					error: { name: e?.name ?? "Error", message: e?.message ?? String(e) },
+				});
+			}
+		};
+
+		worker.on("message", (message: any) => {
+			if (message.type === "call") {
+				forward(message.id, message.method, message.args);
+				return;
+			}
+			settle(() => {
+				if (message.type === "failed") {
+					reject(
+						Object.assign(new Error(message.error.message), {
+							name: message.error.name,
+						}),
+					);
+				} else {
+					resolve(message.result);
+				}
+			});
+		});
+		worker.on("error", (e) => {
+			settle(() => reject(new ToolCrashError(call.name, e.message)));
+		});
+		worker.on("exit", (code) => {
+			settle(() =>
+				reject(
+					new ToolCrashError(
+						call.name,
+						`exited with code ${code} before returning a result`,
+					),
+				),
+			);
+		});
+	});
+}
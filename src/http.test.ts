@@ -0,0 +1,142 @@
+import type { Server as SessionServer } from "@socotra/modelcontextprotocol-sdk/server/index.js";
+import { McpServer } from "@socotra/modelcontextprotocol-sdk/server/mcp.js";
+import { afterEach, expect, test } from "bun:test";
+import { request, type Server } from "http";
+import type { AddressInfo } from "net";
+import { type HttpOptions, startHttpServer } from "./http.ts";
+
+let httpServer: Server | undefined;
+
+afterEach(() => {
+	httpServer?.close();
+	httpServer?.closeAllConnections();
+	httpServer = undefined;
+});
+
+async function start(options: Partial<HttpOptions> = {}) {
+	const server = new McpServer({ name: "test", version: "1.0.0" });
+	httpServer = await startHttpServer(server, new Set<SessionServer>(), {
+		port: 0,
+		host: "127.0.0.1",
+		sse: false,
+		...options,
+	});
+	return (httpServer.address() as AddressInfo).port;
+}
+
+// Function to POST to /mcp with custom headers (fetch can't set Host)
+function post(
+	port: number,
+	body: string,
+	headers: Record<string, string> = {},
+) {
+	return new Promise<{ status: number; sessionId?: string; body: string }>(
+		(resolve, reject) => {
+			const req = request(
+				{
+					host: "127.0.0.1",
+					port,
+					path: "/mcp",
+					method: "POST",
+					headers: {
+						host: `127.0.0.1:${port}`,
+						"content-type": "application/json",
+						accept: "application/json, text/event-stream",
+						...headers,
+					},
+				},
+				(res) => {
+					let data = "";
+					res.on("data", (chunk) => (data += chunk));
+					res.on("end", () =>
+						resolve({
+							status: res.statusCode!,
+							sessionId: res.headers["mcp-session-id"] as string | undefined,
+							body: data,
+						}),
+					);
+				},
+			);
+			req.on("error", reject);
+			req.end(body);
+		},
+	);
+}
+
+const initialize = JSON.stringify({
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: {
+		protocolVersion: "2025-06-18",
+		capabilities: {},
+		clientInfo: { name: "test", version: "1.0.0" },
+	},
+});
+
+const ping = JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" });
+
+test("starts a session for an allowed host", async () => {
+	const port = await start();
+	const response = await post(port, initialize, { host: `localhost:${port}` });
+
+	expect(response.status).toBe(200);
+	expect(response.sessionId).toBeString();
+});
+
+test("rejects other host names and cross-origin requests", async () => {
+	const port = await start();
+
+	const rebound = await post(port, initialize, {
+		host: `evil.example:${port}`,
+	});
+	expect(rebound.status).toBe(403);
+
+	const crossOrigin = await post(port, initialize, {
+		origin: "http://evil.example",
+	});
+	expect(crossOrigin.status).toBe(403);
+
+	const sameOrigin = await post(port, initialize, {
+		origin: `http://localhost:${port}`,
+	});
+	expect(sameOrigin.status).toBe(200);
+});
+
+test("accepts configured host names", async () => {
+	const port = await start({ host: "0.0.0.0", allowedHosts: ["devbox"] });
+
+	expect((await post(port, initialize, { host: "devbox" })).status).toBe(200);
+	expect((await post(port, initialize, { host: "other" })).status).toBe(403);
+});
+
+test("requires the bearer token when set", async () => {
+	const port = await start({ token: "secret" });
+
+	expect((await post(port, initialize)).status).toBe(401);
+	const response = await post(port, initialize, {
+		authorization: "Bearer secret",
+	});
+	expect(response.status).toBe(200);
+});
+
+test("answers invalid JSON with a parse error", async () => {
+	const port = await start();
+	const response = await post(port, "{");
+
+	expect(response.status).toBe(400);
+	expect(JSON.parse(response.body).error.code).toBe(-32700);
+});
+
+test("closes idle sessions", async () => {
+	const port = await start({ sessionTimeoutMs: 50 });
+	const { sessionId } = await post(port, initialize);
+	const headers = {
+		"mcp-session-id": sessionId!,
+		"mcp-protocol-version": "2025-06-18",
+	};
+
+	expect((await post(port, ping, headers)).status).toBe(200);
+	await new Promise((resolve) => setTimeout(resolve, 200));
+	expect((await post(port, ping, headers)).status).toBe(404);
+});
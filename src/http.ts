@@ -0,0 +1,290 @@
+import { Server } from "@socotra/modelcontextprotocol-sdk/server/index.js";
+import type { McpServer } from "@socotra/modelcontextprotocol-sdk/server/mcp.js";
+import { SSEServerTransport } from "@socotra/modelcontextprotocol-sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@socotra/modelcontextprotocol-sdk/server/streamableHttp.js";
+import type { Transport } from "@socotra/modelcontextprotocol-sdk/shared/transport.js";
+import { isInitializeRequest } from "@socotra/modelcontextprotocol-sdk/types.js";
+import { randomUUID, timingSafeEqual } from "crypto";
+import {
+	createServer,
+	type IncomingMessage,
+	type ServerResponse,
+} from "http";
+
+export interface HttpOptions {
+	port: number;
+	host: string;
+	// Also serve the legacy HTTP+SSE transport on /sse and /messages
+	sse: boolean;
+	// Require "Authorization: Bearer <token>" when set
+	token?: string;
+	// Host names clients may use to reach the server (Host and Origin
+	// headers). Defaults to the listening host, plus localhost aliases for
+	// loopback hosts; anything goes when listening on all interfaces.
+	allowedHosts?: string[];
+	// Close Streamable HTTP sessions idle for longer (default: 30 minutes)
+	sessionTimeoutMs?: number;
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1", "[::1]"];
+
+// Function to list the host names to accept by default. Checking them keeps
+// web pages from reaching a local server through DNS rebinding.
+function defaultAllowedHosts(host: string) {
+	if (host === "0.0.0.0" || host === "::") return undefined;
+	if (LOOPBACK_HOSTS.includes(host)) {
+		return ["localhost", "127.0.0.1", "[::1]"];
+	}
+	return [host.includes(":") ? `[${host}]` : host];
+}
+
+// Function to get the host name from a Host header or an Origin
+function hostnameOf(value: string) {
+	try {
+		return new URL(value.includes("://") ? value : `http://${value}`).hostname;
+	} catch {
+		return undefined;
+	}
+}
+
+// Function to reject requests for a host name the server doesn't answer to,
+// and requests from web pages of another origin. Clients other than browsers
+// send no Origin header.
+function checkHeaders(req: IncomingMessage, allowedHosts?: string[]) {
+	const host = hostnameOf(req.headers.host ?? "");
+	if (allowedHosts && (!host || !allowedHosts.includes(host))) {
+		return `Invalid Host header: ${req.headers.host}`;
+	}
+
+	const origin = req.headers.origin;
+	if (origin !== undefined) {
+		const originHost = hostnameOf(origin);
+		const allowed = allowedHosts
+			? originHost !== undefined && allowedHosts.includes(originHost)
+			: originHost === host;
+		if (!allowed) {
+			return `Invalid Origin header: ${origin}`;
+		}
+	}
+	return undefined;
+}
+
+// Create a server for one session that answers with the loader's McpServer.
+// McpServer can only be connected to a single transport, so each session
+// gets its own Server sharing McpServer's request handlers (and with them
+// the registered tools, resources and prompts).
+function createSessionServer(server: McpServer) {
+	const main = server.server as any;
+	const session = new Server(main._serverInfo, {
+		capabilities: main._capabilities,
+	});
+	const handlers = (session as any)._requestHandlers as Map<string, unknown>;
+	for (const [method, handler] of main._requestHandlers as Map<
+		string,
+		unknown
+	>) {
+		// Keep the session's own initialize/ping handlers
+		if (!handlers.has(method)) {
+			handlers.set(method, handler);
+		}
+	}
+	return session;
+}
+
+function isAuthorized(req: IncomingMessage, token: string) {
+	const header = req.headers.authorization ?? "";
+	const expected = Buffer.from(`Bearer ${token}`);
+	const actual = Buffer.from(header);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage) {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) {
+		chunks.push(chunk as Buffer);
+	}
+	const body = Buffer.concat(chunks).toString("utf8");
+	return body ? JSON.parse(body) : undefined;
+}
+
+function sendError(
+	res: ServerResponse,
+	status: number,
+	message: string,
+	code = -32000,
+) {
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(
+		JSON.stringify({
+			jsonrpc: "2.0",
+			error: { code, message },
+			id: null,
+		}),
+	);
+}
+
+// Start serving MCP over Streamable HTTP on /mcp (and legacy SSE if enabled).
+// Connected session servers are kept in `sessions`, e.g. to broadcast
+// list_changed notifications.
+export async function startHttpServer(
+	server: McpServer,
+	sessions: Set<Server>,
+	options: HttpOptions,
+) {
+	const transports = new Map<string, Transport>();
+	const allowedHosts =
+		options.allowedHosts ?? defaultAllowedHosts(options.host);
+	const sessionTimeoutMs = options.sessionTimeoutMs ?? 30 * 60 * 1000;
+
+	// Streamable HTTP sessions by ID: when they were last used, and how many
+	// of their requests (e.g. a notification stream) are still open
+	const activity = new Map<string, { lastSeen: number; open: number }>();
+
+	const connectSession = async (transport: Transport) => {
+		const session = createSessionServer(server);
+		const onclose = transport.onclose;
+		transport.onclose = () => {
+			onclose?.();
+			sessions.delete(session);
+			if (transport.sessionId) {
+				transports.delete(transport.sessionId);
+				activity.delete(transport.sessionId);
+			}
+			console.error(`Session closed: ${transport.sessionId}`);
+		};
+		await session.connect(transport);
+		sessions.add(session);
+	};
+
+	const handleStreamableHttp = async (
+		req: IncomingMessage,
+		res: ServerResponse,
+	) => {
+		const sessionId = req.headers["mcp-session-id"] as string | undefined;
+		const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+		if (sessionId) {
+			const transport = transports.get(sessionId);
+			const session = activity.get(sessionId);
+			if (
+				!(transport instanceof StreamableHTTPServerTransport) ||
+				!session
+			) {
+				sendError(res, 404, "Session not found");
+				return;
+			}
+			session.lastSeen = Date.now();
+			session.open++;
+			res.on("close", () => {
+				session.lastSeen = Date.now();
+				session.open--;
+			});
+			await transport.handleRequest(req, res, body);
+			return;
+		}
+
+		if (req.method !== "POST" || !isInitializeRequest(body)) {
+			sendError(res, 400, "Bad Request: No valid session ID provided");
+			return;
+		}
+
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: (id) => {
+				transports.set(id, transport);
+				activity.set(id, { lastSeen: Date.now(), open: 0 });
+				console.error(`Session started: ${id}`);
+			},
+		});
+		await connectSession(transport);
+		await transport.handleRequest(req, res, body);
+	};
+
+	const handleSse = async (res: ServerResponse) => {
+		const transport = new SSEServerTransport("/messages", res);
+		transports.set(transport.sessionId, transport);
+		console.error(`Session started (SSE): ${transport.sessionId}`);
+		await connectSession(transport);
+	};
+
+	const handleSseMessage = async (
+		req: IncomingMessage,
+		res: ServerResponse,
+		url: URL,
+	) => {
+		const transport = transports.get(url.searchParams.get("sessionId") ?? "");
+		if (!(transport instanceof SSEServerTransport)) {
+			sendError(res, 404, "Session not found");
+			return;
+		}
+		await transport.handlePostMessage(req, res, await readJsonBody(req));
+	};
+
+	const httpServer = createServer(async (req, res) => {
+		const headerError = checkHeaders(req, allowedHosts);
+		if (headerError) {
+			sendError(res, 403, headerError);
+			return;
+		}
+
+		const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+
+		if (options.token && !isAuthorized(req, options.token)) {
+			res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end();
+			return;
+		}
+
+		try {
+			if (url.pathname === "/mcp") {
+				await handleStreamableHttp(req, res);
+			} else if (
+				options.sse &&
+				url.pathname === "/sse" &&
+				req.method === "GET"
+			) {
+				await handleSse(res);
+			} else if (
+				options.sse &&
+				url.pathname === "/messages" &&
+				req.method === "POST"
+			) {
+				await handleSseMessage(req, res, url);
+			} else {
+				sendError(res, 404, "Not found");
+			}
+		} catch (e: any) {
+			if (e instanceof SyntaxError) {
+				sendError(res, 400, "Parse error: invalid JSON body", -32700);
+				return;
+			}
+			console.error("Failed to handle request:", e.message || e);
+			if (!res.headersSent) {
+				sendError(res, 500, "Internal server error");
+			}
+		}
+	});
+
+	// Clients that never end their session with DELETE would keep it (and
+	// its server) forever
+	const expireSessions = setInterval(
+		() => {
+			const now = Date.now();
+			for (const [id, session] of activity) {
+				if (session.open === 0 && now - session.lastSeen > sessionTimeoutMs) {
+					console.error(`Session expired: ${id}`);
+					transports.get(id)?.close();
+				}
+			}
+		},
+		Math.min(sessionTimeoutMs, 60_000),
+	);
+	expireSessions.unref();
+	httpServer.on("close", () => clearInterval(expireSessions));
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once("error", reject);
+		httpServer.listen(options.port, options.host, resolve);
+	});
+
+	return httpServer;
+}
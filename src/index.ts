@@ -1,239 +1,202 @@
-import { McpServer } from "@socotra/modelcontextprotocol-sdk/server/mcp.js";
 import { StdioServerTransport } from "@socotra/modelcontextprotocol-sdk/server/stdio.js";
-import { watch } from "fs";
-import { readdir, stat } from "fs/promises";
-import { basename, join, resolve } from "path";
-import { pathToFileURL } from "url";
-import type { z } from "zod";
-
-// Type for our tool definition
-interface ToolDefinition {
-	description: string;
-	args?: Record<string, z.ZodTypeAny>;
-	execute: (args: unknown, context?: unknown) => Promise<unknown> | unknown;
-}
+import { join, relative } from "path";
+import { findConfigFile, loadConfig } from "./config.ts";
+import { startHttpServer } from "./http.ts";
+import { createLoader, type LoaderOptions } from "./loader.ts";
 
-// Type guard to check if something is a tool definition
-function isToolDefinition(value: unknown): value is ToolDefinition {
-	return (
-		typeof value === "object" &&
-		value !== null &&
-		"description" in value &&
-		"execute" in value &&
-		typeof (value as ToolDefinition).description === "string" &&
-		typeof (value as ToolDefinition).execute === "function"
-	);
+// Configuration
+const argv = process.argv.slice(2);
+
+// Indexes of argv entries consumed as flag values
+const flagValueIndexes = new Set<number>();
+
+// Read a flag's value: undefined if the flag is absent, "" if it is present
+// without a (matching) value
+function readFlag(
+	name: string,
+	isValue: (value: string) => boolean = () => true,
+) {
+	const index = argv.indexOf(name);
+	if (index === -1) return undefined;
+
+	const value = argv[index + 1];
+	if (value !== undefined && !value.startsWith("--") && isValue(value)) {
+		flagValueIndexes.add(index + 1);
+		return value;
+	}
+	return "";
 }
 
-// Configuration
-const toolDir = resolve(process.argv[2] || ".claude/tool");
-const hotReload =
-	process.env.MCP_NO_HOT_RELOAD !== "true" &&
-	!process.argv.includes("--no-hot-reload");
+const httpPort = readFlag("--http", (value) => /^\d+$/.test(value));
+const httpHost = readFlag("--host") || "127.0.0.1";
+const allowedHosts = readFlag("--allowed-hosts");
+const callArgs = readFlag("--args");
+const timeoutFlag = readFlag("--timeout", (value) => /^\d+$/.test(value));
+const timeoutMs = timeoutFlag ? Number(timeoutFlag) : undefined;
+const configFlag = readFlag("--config");
+const json = argv.includes("--json");
+
+const positionals = argv.filter(
+	(arg, i) => !arg.startsWith("--") && !flagValueIndexes.has(i),
+);
+const command = ["list", "call", "check"].includes(positionals[0]!)
+	? positionals.shift()
+	: "serve";
+const toolName = command === "call" ? positionals.shift() : undefined;
+const toolDir = positionals[0];
+
+// Roots, middleware and defaults from mcp-loader.config.ts (or --config). A
+// folder given on the command line replaces the configured roots.
+async function loaderOptions(): Promise<LoaderOptions> {
+	const configPath = configFlag || (await findConfigFile());
+	let config: Awaited<ReturnType<typeof loadConfig>> = {};
+	if (configPath) {
+		try {
+			config = await loadConfig(configPath);
+		} catch (e: any) {
+			console.error(`Failed to load config ${configPath}: ${e.message || e}`);
+			process.exit(1);
+		}
+	}
 
-if (hotReload) {
-	console.error(`Hot reload enabled for ${toolDir}`);
-} else {
-	console.error(`Hot reload disabled for ${toolDir}`);
+	return {
+		roots: toolDir
+			? [{ dir: toolDir }]
+			: (config.roots ?? [{ dir: ".claude/tool" }]),
+		middleware: config.middleware,
+		timeoutMs: timeoutMs ?? config.timeoutMs,
+	};
 }
 
-// Create MCP server with capabilities
-const server = new McpServer({
-	name: "mcp-loader",
-	version: "0.1.0",
-	capabilities: hotReload
-		? {
-				tools: { listChanged: true },
-			}
-		: undefined,
-});
-
-// Track registered tools for cleanup
-const registeredTools = new Map<string, Set<string>>();
-
-// Function to unregister tools from a file
-function unregisterFileTools(file: string) {
-	const baseName = file.replace(/\.(ts|js)$/, "");
-	const toolNames = registeredTools.get(baseName);
-
-	if (toolNames) {
-		console.error(
-			`Unregistering tools from ${file}: ${Array.from(toolNames).join(", ")}`,
+// `mcp-loader list [dir]`: print discovered tools with their JSON schemas
+async function listTools() {
+	const loader = createLoader(await loaderOptions());
+	await loader.load();
+
+	if (json) {
+		console.log(JSON.stringify(loader.tools, null, 2));
+		return;
+	}
+	for (const tool of loader.tools) {
+		console.log(`${tool.name} (${tool.file})`);
+		console.log(`  ${tool.description}`);
+		console.log(
+			`  args: ${JSON.stringify(tool.inputSchema.properties ?? {}, null, 2).replace(/\n/g, "\n  ")}`,
 		);
-		// Access the internal _registeredTools object to remove tools
-		// This is a workaround since MCP SDK doesn't provide an unregister method
-		if ((server as any)._registeredTools) {
-			toolNames.forEach((name) => {
-				delete (server as any)._registeredTools[name];
-			});
-		}
-		registeredTools.delete(baseName);
+		console.log();
 	}
 }
 
-// Function to register a tool with the server
-function registerTool(name: string, tool: ToolDefinition, baseName: string) {
-	// Track the tool
-	if (!registeredTools.has(baseName)) {
-		registeredTools.set(baseName, new Set());
-	}
-	registeredTools.get(baseName)!.add(name);
-
-	const schema =
-		tool.args && Object.keys(tool.args).length > 0 ? tool.args : undefined;
-	console.error(`Registering tool: ${name}`);
-
-	if (schema) {
-		server.tool(
-			name,
-			tool.description,
-			schema as any,
-			async (args: unknown, extra: any) => {
-				const result = await tool.execute(args, extra);
-				return {
-					content: [
-						{
-							type: "text" as const,
-							text:
-								typeof result === "string"
-									? result
-									: JSON.stringify(result, null, 2),
-						},
-					],
-				};
-			},
+// `mcp-loader check [dir]`: load every tool file and report problems.
+// Exits non-zero when there are errors.
+async function checkTools() {
+	const loader = createLoader({ ...(await loaderOptions()), log: () => {} });
+	await loader.load();
+	const { tools, problems } = loader;
+	const errors = problems.filter((problem) => problem.severity === "error");
+
+	if (json) {
+		console.log(
+			JSON.stringify(
+				{ tools: tools.map((tool) => tool.name), problems },
+				null,
+				2,
+			),
 		);
 	} else {
-		// For tools with no args, callback only receives 'extra' parameter
-		server.tool(name, tool.description, async (extra: any) => {
-			const result = await tool.execute({}, extra);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text:
-							typeof result === "string"
-								? result
-								: JSON.stringify(result, null, 2),
-					},
-				],
-			};
-		});
+		for (const problem of problems) {
+			const location = relative(process.cwd(), join(problem.dir, problem.file));
+			console.log(
+				`${problem.severity}: ${location}${problem.name ? ` (${problem.name})` : ""}`,
+			);
+			console.log(`  ${problem.message}`);
+		}
+		console.log(
+			`${tools.length} tools loaded, ${errors.length} errors, ${problems.length - errors.length} warnings`,
+		);
 	}
+	process.exit(errors.length > 0 ? 1 : 0);
 }
 
-// Function to load a single tool file
-async function loadToolFile(file: string) {
-	if (!file.endsWith(".ts") && !file.endsWith(".js")) return;
-
-	const filePath = join(toolDir, file);
-	const baseName = file.replace(/\.(ts|js)$/, "");
-
-	// First unregister any existing tools from this file
-	unregisterFileTools(file);
+// `mcp-loader call <tool> [dir] --args '{...}'`: run a single tool
+async function callTool(name: string | undefined) {
+	if (!name) {
+		console.error("Usage: mcp-loader call <tool> [dir] --args '{...}'");
+		process.exit(1);
+	}
 
+	let args: unknown = {};
 	try {
-		// Check if file still exists (for delete events)
-		await stat(filePath);
-
-		const fileUrl = pathToFileURL(filePath).href;
-
-		// Add cache buster for dynamic imports when hot reloading
-		const importUrl = hotReload ? `${fileUrl}?t=${Date.now()}` : fileUrl;
-		const module = await import(importUrl);
-
-		// Handle default export
-		if (module.default && isToolDefinition(module.default)) {
-			registerTool(baseName, module.default, baseName);
-		}
-
-		// Handle named exports
-		Object.entries(module).forEach(([key, value]) => {
-			if (key !== "default" && isToolDefinition(value)) {
-				registerTool(`${baseName}_${key}`, value as ToolDefinition, baseName);
-			}
-		});
+		args = callArgs ? JSON.parse(callArgs) : {};
 	} catch (e: any) {
-		if (e.code === "ENOENT") {
-			console.error(`File deleted: ${file}`);
-		} else {
-			console.error(`Failed to load ${file}:`, e.message || e);
-		}
+		console.error(`Invalid --args JSON: ${e.message}`);
+		process.exit(1);
 	}
-}
 
-// Function to load all tools
-async function loadAllTools() {
-	try {
-		const files = await readdir(toolDir);
-		for (const file of files) {
-			await loadToolFile(file);
-		}
-	} catch (e) {
-		console.error(`No tools found in ${toolDir}:`, e);
+	const loader = createLoader(await loaderOptions());
+	await loader.load();
+	if (!loader.tools.some((tool) => tool.name === name)) {
+		console.error(`Tool ${name} not found in ${loader.dirs.join(", ")}`);
+		process.exit(1);
 	}
-}
-
-// Initial load
-await loadAllTools();
-
-// Set up file watching if hot reload is enabled
-if (hotReload) {
-	console.error("Setting up file watcher...");
 
-	// Debounce mechanism to avoid multiple reloads
-	let reloadTimeout: NodeJS.Timeout | null = null;
-	const pendingReloads = new Set<string>();
-
-	const scheduleReload = () => {
-		if (reloadTimeout) {
-			clearTimeout(reloadTimeout);
+	const result = await loader.invoke(name, args);
+	if (json) {
+		console.log(JSON.stringify(result, null, 2));
+	} else {
+		for (const block of result.content) {
+			console.log(
+				block.type === "text" ? block.text : JSON.stringify(block, null, 2),
+			);
 		}
+	}
+	process.exit(result.isError ? 1 : 0);
+}
 
-		reloadTimeout = setTimeout(async () => {
-			const files = Array.from(pendingReloads);
-			pendingReloads.clear();
-
-			for (const file of files) {
-				await loadToolFile(file);
-			}
-
-			// Notify clients that tool list has changed
-			if (files.length > 0) {
-				console.error("Sending tools/list_changed notification");
-				try {
-					// McpServer exposes the underlying server instance
-					if (
-						server.server &&
-						typeof server.server.sendToolListChanged === "function"
-					) {
-						await server.server.sendToolListChanged();
-					} else {
-						console.error("sendToolListChanged method not available");
-					}
-				} catch (e) {
-					console.error("Failed to send list_changed notification:", e);
-				}
-			}
-		}, 100); // 100ms debounce
-	};
+// Default: serve the tools over stdio or HTTP
+async function serve() {
+	const hotReload =
+		process.env.MCP_NO_HOT_RELOAD !== "true" &&
+		!argv.includes("--no-hot-reload");
+	const loader = createLoader({ ...(await loaderOptions()), hotReload });
+	const dirs = loader.dirs.join(", ");
 
-	watch(toolDir, async (eventType, filename) => {
-		console.error(`[File Watcher] Event: ${eventType}, Filename: ${filename}`);
-		if (filename && (filename.endsWith(".ts") || filename.endsWith(".js"))) {
-			console.error(`[File Watcher] Scheduling reload for: ${filename}`);
-			pendingReloads.add(filename);
-			scheduleReload();
-		}
-	});
+	if (hotReload) {
+		console.error(`Hot reload enabled for ${dirs}`);
+	} else {
+		console.error(`Hot reload disabled for ${dirs}`);
+	}
 
-	console.error("File watcher active");
+	// Initial load
+	await loader.load();
+
+	// Start server: one stdio session, or any number of HTTP sessions
+	if (httpPort !== undefined) {
+		const port = Number(httpPort || 3000);
+		await startHttpServer(loader.server, loader.sessions, {
+			port,
+			host: httpHost,
+			sse: argv.includes("--sse"),
+			token: process.env.MCP_AUTH_TOKEN || undefined,
+			allowedHosts: allowedHosts ? allowedHosts.split(",") : undefined,
+		});
+		console.error(`Listening on http://${httpHost}:${port}/mcp`);
+	} else {
+		const transport = new StdioServerTransport();
+		await loader.server.connect(transport);
+		loader.sessions.add(loader.server.server);
+	}
+	console.error(
+		`MCP Loader started (hot reload: ${hotReload ? "enabled" : "disabled"})`,
+	);
 }
 
-// Start server
-const transport = new StdioServerTransport();
-await server.connect(transport);
-console.error(
-	`MCP Loader started (hot reload: ${hotReload ? "enabled" : "disabled"})`,
-);
-console.error("File watcher active");
+if (command === "list") {
+	await listTools();
+} else if (command === "call") {
+	await callTool(toolName);
+} else if (command === "check") {
+	await checkTools();
+} else {
+	await serve();
+}
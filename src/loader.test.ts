@@ -0,0 +1,436 @@
+import { Client } from "@socotra/modelcontextprotocol-sdk/client/index.js";
+import { InMemoryTransport } from "@socotra/modelcontextprotocol-sdk/inMemory.js";
+import { LoggingMessageNotificationSchema } from "@socotra/modelcontextprotocol-sdk/types.js";
+import { afterEach, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join, relative } from "path";
+import { createLoader, type Loader, type LoaderOptions } from "./loader.ts";
+
+// Tool files import the helpers from source
+const toolModule = join(import.meta.dir, "tool.ts");
+
+let loader: Loader | undefined;
+let tempDir: string | undefined;
+
+afterEach(() => {
+	loader?.close();
+	loader = undefined;
+	if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+	tempDir = undefined;
+});
+
+// Function to write files (paths relative to a fresh temp folder) and return
+// the folder
+function writeFiles(files: Record<string, string>) {
+	tempDir ??= mkdtempSync(join(tmpdir(), "mcp-loader-"));
+	for (const [file, source] of Object.entries(files)) {
+		const path = join(tempDir, file);
+		mkdirSync(dirname(path), { recursive: true });
+		writeFileSync(path, source.replaceAll("TOOL_MODULE", toolModule));
+	}
+	return tempDir;
+}
+
+async function load(options: LoaderOptions) {
+	loader = createLoader({ log: () => {}, ...options });
+	await loader.load();
+	return loader;
+}
+
+// Function to connect an MCP client to a loader's server
+async function connect(loader: Loader) {
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	const client = new Client({ name: "test", version: "1.0.0" });
+	await loader.server.connect(serverTransport);
+	loader.sessions.add(loader.server.server);
+	await client.connect(clientTransport);
+	return client;
+}
+
+function names(loader: Loader) {
+	return loader.tools.map((tool) => tool.name).sort();
+}
+
+function text(result: { content: Array<{ type: string; text?: string }> }) {
+	return result.content.map((block) => block.text).join("\n");
+}
+
+const math = `
+import { tool } from "TOOL_MODULE";
+
+export const add = tool({
+	description: "Add two numbers",
+	args: { a: tool.schema.number(), b: tool.schema.number() },
+	execute: async ({ a, b }) => a + b,
+});
+
+export const fail = tool({
+	description: "Always throws",
+	execute: async () => {
+		throw new Error("boom");
+	},
+});
+`;
+
+test("lists discovered tools with their JSON schemas", async () => {
+	const dir = writeFiles({ "tools/math.ts": math });
+	const { tools } = await load({ dir: join(dir, "tools") });
+
+	const add = tools.find((tool) => tool.name === "math_add");
+	expect(add).toMatchObject({
+		description: "Add two numbers",
+		file: "math.ts",
+		inputSchema: {
+			type: "object",
+			properties: { a: { type: "number" }, b: { type: "number" } },
+			required: ["a", "b"],
+		},
+	});
+});
+
+test("invokes a tool through validation and result formatting", async () => {
+	const dir = writeFiles({ "tools/math.ts": math });
+	const loader = await load({ dir: join(dir, "tools") });
+
+	expect(await loader.invoke("math_add", { a: 1, b: 2 })).toEqual({
+		content: [{ type: "text", text: "3" }],
+	});
+
+	const invalid = await loader.invoke("math_add", { a: "1" });
+	expect(invalid.isError).toBe(true);
+	expect(text(invalid)).toContain("Invalid arguments for tool math_add");
+
+	const failed = await loader.invoke("math_fail");
+	expect(failed).toEqual({
+		content: [{ type: "text", text: "boom" }],
+		isError: true,
+	});
+
+	await expect(loader.invoke("missing")).rejects.toThrow(
+		"Tool missing not found",
+	);
+});
+
+test("emits load events", async () => {
+	const dir = writeFiles({ "tools/math.ts": math });
+	loader = createLoader({ dir: join(dir, "tools"), log: () => {} });
+	const loaded: string[] = [];
+	loader.on("load", (tool) => loaded.push(tool.name));
+	await loader.load();
+
+	expect(loaded.sort()).toEqual(["math_add", "math_fail"]);
+});
+
+const plain = (description: string) =>
+	`export default { description: "${description}", execute: async () => "${description}" };\n`;
+
+test("names tools after their folders and exports", async () => {
+	const dir = writeFiles({
+		"tools/math.ts": math,
+		"tools/db/query.js": `${plain("query")}export const run = { description: "run", execute: async () => "run" };\n`,
+		"tools/jira/index.js": plain("jira"),
+		"tools/_helpers/format.js": plain("helper"),
+		"tools/.cache/cached.js": plain("cached"),
+		"tools/math.test.js": plain("test"),
+	});
+	const loader = await load({ dir: join(dir, "tools") });
+
+	expect(names(loader)).toEqual([
+		"db_query",
+		"db_query_run",
+		"jira",
+		"math_add",
+		"math_fail",
+	]);
+});
+
+test("serves resources, resource templates and prompts", async () => {
+	const dir = writeFiles({
+		"tools/docs.ts": `
+import { prompt, resource, resourceTemplate } from "TOOL_MODULE";
+
+export const changelog = resource({
+	uri: "docs://changelog",
+	mimeType: "text/markdown",
+	read: () => "# Changelog",
+});
+
+export const page = resourceTemplate({
+	uriTemplate: "docs://page/{slug}",
+	read: (uri, { slug }) => ({ slug }),
+});
+
+export const review = prompt({
+	description: "Review a file",
+	args: { file: prompt.schema.string() },
+	render: ({ file }) => \`Review \${file}\`,
+});
+`,
+	});
+	const client = await connect(await load({ dir: join(dir, "tools") }));
+
+	const { resources } = await client.listResources();
+	expect(resources).toEqual([
+		{
+			name: "docs_changelog",
+			uri: "docs://changelog",
+			mimeType: "text/markdown",
+		},
+	]);
+	expect(await client.readResource({ uri: "docs://changelog" })).toEqual({
+		contents: [
+			{
+				uri: "docs://changelog",
+				mimeType: "text/markdown",
+				text: "# Changelog",
+			},
+		],
+	});
+	expect(await client.readResource({ uri: "docs://page/intro" })).toEqual({
+		contents: [
+			{
+				uri: "docs://page/intro",
+				mimeType: "application/json",
+				text: JSON.stringify({ slug: "intro" }, null, 2),
+			},
+		],
+	});
+
+	const { messages } = await client.getPrompt({
+		name: "docs_review",
+		arguments: { file: "a.ts" },
+	});
+	expect(messages).toEqual([
+		{ role: "user", content: { type: "text", text: "Review a.ts" } },
+	]);
+	await client.close();
+});
+
+test("reports a crashed isolated tool as an error result", async () => {
+	const dir = writeFiles({
+		"tools/build.js": `
+export const crash = { description: "crash", isolate: true, execute: () => process.exit(3) };
+export const ok = { description: "ok", isolate: true, execute: async () => "built" };
+`,
+	});
+	const loader = await load({ dir: join(dir, "tools") });
+
+	const crashed = await loader.invoke("build_crash");
+	expect(crashed.isError).toBe(true);
+	expect(text(crashed)).toContain("ToolCrashError: Tool build_crash crashed");
+	expect(text(await loader.invoke("build_ok"))).toBe("built");
+});
+
+test("sends log messages at or above the client's logging level", async () => {
+	const dir = writeFiles({
+		"tools/chatty.js": `
+export default {
+	description: "Logs at two levels",
+	execute: async (args, { log }) => {
+		await log.debug("details");
+		await log.warn("careful");
+	},
+};
+`,
+	});
+	const client = await connect(await load({ dir: join(dir, "tools") }));
+	const levels: string[] = [];
+	client.setNotificationHandler(LoggingMessageNotificationSchema, (message) => {
+		levels.push(message.params.level);
+	});
+
+	await client.callTool({ name: "chatty" });
+	expect(levels).toEqual(["debug", "warning"]);
+
+	levels.length = 0;
+	await client.setLoggingLevel("warning");
+	await client.callTool({ name: "chatty" });
+	expect(levels).toEqual(["warning"]);
+	await client.close();
+});
+
+test("loads several roots with prefixes and filters", async () => {
+	const dir = writeFiles({
+		"global/git.js": `${plain("status")}export const reset = { description: "reset", execute: async () => "reset" };\n`,
+		"global/experimental/x.js": plain("x"),
+		"global/scripts/deploy.js": plain("deploy"),
+		"pkg/db.js": `${plain("db")}export const drop = { description: "drop", execute: async () => "drop" };\n`,
+	});
+	const loader = await load({
+		roots: [
+			{
+				dir: join(dir, "global"),
+				prefix: "g",
+				exclude: ["experimental/**"],
+				include: ["*.js"],
+				disable: ["*_reset"],
+			},
+			{ dir: join(dir, "pkg"), prefix: "p", enable: ["p_db"] },
+		],
+	});
+
+	expect(names(loader)).toEqual(["g_git", "p_db"]);
+	expect(loader.tools.find((tool) => tool.name === "p_db")).toMatchObject({
+		dir: join(dir, "pkg"),
+		file: "db.js",
+	});
+});
+
+test("passes title and annotations, and skips disabled tools", async () => {
+	const dir = writeFiles({
+		"tools/db.ts": `
+import { tool } from "TOOL_MODULE";
+
+export const drop = tool({
+	title: "Drop table",
+	description: "Drop a table",
+	annotations: { destructiveHint: true },
+	execute: async () => "dropped",
+});
+
+export const off = tool({
+	description: "Never registered",
+	enabled: () => false,
+	execute: async () => "off",
+});
+`,
+	});
+	const client = await connect(await load({ dir: join(dir, "tools") }));
+
+	const { tools } = await client.listTools();
+	expect(tools).toHaveLength(1);
+	expect(tools[0]).toMatchObject({
+		name: "db_drop",
+		title: "Drop table",
+		annotations: { destructiveHint: true },
+	});
+	await client.close();
+});
+
+test("runs middleware around execute, first entry outermost", async () => {
+	const dir = writeFiles({
+		"tools/echo.js": `export default { description: "echo", execute: async (args) => JSON.stringify(args) };\n`,
+	});
+	const calls: string[] = [];
+	const loader = await load({
+		dir: join(dir, "tools"),
+		middleware: [
+			async (call, next) => {
+				calls.push(`outer ${call.name}`);
+				const result = await next();
+				calls.push("outer done");
+				return `${result}!`;
+			},
+			async (call, next) => {
+				calls.push("inner");
+				call.args = { ...call.args, redacted: true };
+				return next();
+			},
+		],
+	});
+
+	expect(text(await loader.invoke("echo"))).toBe('{"redacted":true}!');
+	expect(calls).toEqual(["outer echo", "inner", "outer done"]);
+});
+
+test("limits context.env and isolated process.env to the allowlist", async () => {
+	process.env.MCP_TEST_ALLOWED = "yes";
+	process.env.MCP_TEST_HIDDEN = "no";
+	const dir = writeFiles({
+		"tools/env.js": `
+const read = (env) => JSON.stringify([env.MCP_TEST_ALLOWED, env.MCP_TEST_HIDDEN, "MCP_TEST_UNSET" in env]);
+export const context = { description: "context", execute: async (args, { env }) => read(env) };
+export const worker = { description: "worker", isolate: true, execute: async () => read(process.env) };
+`,
+	});
+	try {
+		const loader = await load({
+			roots: [
+				{
+					dir: join(dir, "tools"),
+					env: ["MCP_TEST_ALLOWED", "MCP_TEST_UNSET"],
+				},
+			],
+		});
+
+		const expected = JSON.stringify(["yes", null, false]);
+		expect(text(await loader.invoke("env_context"))).toBe(expected);
+		expect(text(await loader.invoke("env_worker"))).toBe(expected);
+	} finally {
+		delete process.env.MCP_TEST_ALLOWED;
+		delete process.env.MCP_TEST_HIDDEN;
+	}
+});
+
+test("refuses a name another file already registered", async () => {
+	const dir = writeFiles({
+		"tools/foo.js": `${plain("foo")}export const bar = { description: "foo bar", execute: async () => "from foo" };\n`,
+		"tools/foo_bar.js": plain("from foo_bar"),
+	});
+	const loader = await load({ dir: join(dir, "tools") });
+
+	expect(text(await loader.invoke("foo_bar"))).toBe("from foo");
+	expect(loader.problems).toEqual([
+		{
+			severity: "error",
+			message:
+				"Tool foo_bar is already registered by " +
+				`${relative(process.cwd(), join(dir, "tools/foo.js"))}; rename one of them`,
+			dir: join(dir, "tools"),
+			file: "foo_bar.js",
+			name: "foo_bar",
+		},
+	]);
+});
+
+test("reports invalid exports and files that fail to load", async () => {
+	const dir = writeFiles({
+		"tools/my.tool.js": plain("dotted"),
+		"tools/broken.js": `export default { description: "broken", execute: "nope" };\n`,
+		"tools/syntax.js": "export default {\n",
+		"tools/ok.js": plain("ok"),
+	});
+	const loader = await load({ dir: join(dir, "tools") });
+
+	expect(names(loader)).toEqual(["ok"]);
+	expect(
+		loader.problems.map((problem) => [problem.file, problem.severity]).sort(),
+	).toEqual([
+		["broken.js", "error"],
+		["my.tool.js", "error"],
+		["syntax.js", "error"],
+	]);
+});
+
+test("reports a root that can't be read", async () => {
+	const dir = writeFiles({});
+	const loader = await load({ dir: join(dir, "missing") });
+
+	expect(loader.problems).toMatchObject([
+		{ severity: "error", dir: join(dir, "missing"), file: "" },
+	]);
+	expect(loader.problems[0]!.message).toStartWith("Can't read tool folder");
+});
+
+// Ignored segments ("." or "_" prefixes) only count below a root, not in the
+// path leading to it
+test("hot reloads tools in a root inside a dot folder", async () => {
+	const writeTool = (version: string) =>
+		writeFiles({
+			".claude/tool/db/query.js": `export default { description: "query", execute: async () => "${version}" };\n`,
+		});
+	const dir = writeTool("v1");
+	const loader = await load({
+		dir: join(dir, ".claude/tool"),
+		hotReload: true,
+	});
+	expect(text(await loader.invoke("db_query"))).toBe("v1");
+
+	const reloaded = new Promise((resolve) => loader.once("reload", resolve));
+	writeTool("v2");
+	await reloaded;
+
+	expect(text(await loader.invoke("db_query"))).toBe("v2");
+});
@@ -0,0 +1,1083 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from "@socotra/modelcontextprotocol-sdk/server/mcp.js";
+import type { Server } from "@socotra/modelcontextprotocol-sdk/server/index.js";
+import {
+	type CallToolResult,
+	CallToolRequestSchema,
+	ErrorCode,
+	McpError,
+} from "@socotra/modelcontextprotocol-sdk/types.js";
+import { EventEmitter } from "events";
+import { type FSWatcher, watch } from "fs";
+import { readdir, stat } from "fs/promises";
+import { dirname, join, relative, resolve, sep } from "path";
+import { z } from "zod";
+import {
+	isPromptDefinition,
+	isResourceDefinition,
+	isResourceTemplateDefinition,
+	isToolDefinition,
+	type PromptDefinition,
+	type ResourceDefinition,
+	type ResourceTemplateDefinition,
+	type ToolDefinition,
+} from "./definitions.ts";
+import {
+	enableFreshLocalImports,
+	evictLocalImports,
+	findLocalDependencies,
+	isConfigFile,
+	toImportUrl,
+} from "./dependencies.ts";
+import { globToRegExp } from "./config.ts";
+import { createToolContext } from "./context.ts";
+import { createEnvFiles } from "./env.ts";
+import {
+	createLimiter,
+	executeTool,
+	runIsolated,
+	runMiddleware,
+} from "./execution.ts";
+import {
+	errorResult,
+	formatError,
+	toPromptMessages,
+	toResourceContents,
+	toToolResult,
+} from "./result.ts";
+import type {
+	LogLevel,
+	Middleware,
+	ToolAnnotations,
+	ToolRootConfig,
+} from "./tool.ts";
+import { checkTool, type Problem } from "./validation.ts";
+
+export interface LoaderOptions {
+	// Folder to load tools, resources and prompts from; shorthand for a single
+	// root without filters
+	dir?: string;
+	// Folders to load from, each with its own prefix and filters
+	roots?: ToolRootConfig[];
+	// Watch the folders and reload changed files (default: false)
+	hotReload?: boolean;
+	// Default timeout for tools that don't set timeoutMs (default: none)
+	timeoutMs?: number;
+	// Run around every tool call, outermost first
+	middleware?: Middleware[];
+	// Where diagnostics go (default: console.error)
+	log?: (...args: unknown[]) => void;
+}
+
+// A tool as discovered by the loader
+export interface LoadedTool {
+	name: string;
+	title?: string;
+	description: string;
+	annotations?: ToolAnnotations;
+	// Root folder the tool was loaded from
+	dir: string;
+	// Path of the defining file, relative to dir
+	file: string;
+	inputSchema: Record<string, unknown>;
+	outputSchema?: Record<string, unknown>;
+}
+
+// Something wrong with a tool file found while loading it. Exports with errors
+// are not registered; warnings are only reported.
+export interface LoadProblem extends Problem {
+	// Root folder and path of the file, relative to dir (empty when the
+	// problem is with the folder itself)
+	dir: string;
+	file: string;
+	// Name of the export's tool, resource or prompt, if the problem is with one
+	name?: string;
+}
+
+export interface LoaderEvents {
+	load: [tool: LoadedTool];
+	unload: [tool: LoadedTool];
+	// A batch of hot reloaded files has been processed
+	reload: [files: string[]];
+}
+
+// Files and folders that live in the tool tree but are not tools themselves:
+// anything prefixed with "_" or "." (e.g. _helpers/), node_modules,
+// type declarations and test files
+const IGNORED_FILE = /\.(test|spec)\.(ts|js)$|\.d\.ts$/;
+
+function isIgnoredPath(file: string) {
+	const segments = file.split("/");
+	if (
+		segments.some(
+			(segment) =>
+				segment.startsWith("_") ||
+				segment.startsWith(".") ||
+				segment === "node_modules",
+		)
+	) {
+		return true;
+	}
+	return IGNORED_FILE.test(file);
+}
+
+function isToolFile(file: string) {
+	return (
+		(file.endsWith(".ts") || file.endsWith(".js")) && !isIgnoredPath(file)
+	);
+}
+
+// Derive the tool name prefix from a path relative to its root:
+// "db/query.ts" -> "db_query", "jira/index.ts" -> "jira"
+function toolBaseName(file: string) {
+	const segments = file.replace(/\.(ts|js)$/, "").split("/");
+	if (segments.length > 1 && segments[segments.length - 1] === "index") {
+		segments.pop();
+	}
+	return segments.join("_");
+}
+
+// Normalize watcher/readdir paths to forward slashes relative to a root
+function toRelativePath(path: string) {
+	return path.split(sep).join("/");
+}
+
+// Kinds of definitions a file can export, mapped to the McpServer's
+// internal registry for that kind
+type EntryKind = "tool" | "resource" | "resourceTemplate" | "prompt";
+
+const serverRegistries: Record<EntryKind, string> = {
+	tool: "_registeredTools",
+	resource: "_registeredResources",
+	resourceTemplate: "_registeredResourceTemplates",
+	prompt: "_registeredPrompts",
+};
+
+const entryLabels: Record<EntryKind, string> = {
+	tool: "Tool",
+	resource: "Resource",
+	resourceTemplate: "Resource template",
+	prompt: "Prompt",
+};
+
+// Where a definition was imported from, so isolated tools can import it again
+// in a worker
+interface ExportSource {
+	moduleUrl: string;
+	exportName: string;
+}
+
+// A tool root with its filters compiled
+interface Root {
+	// Absolute path
+	dir: string;
+	prefix?: string;
+	include?: RegExp[];
+	exclude?: RegExp[];
+	env?: string[];
+	enable?: RegExp[];
+	disable?: RegExp[];
+}
+
+function compileRoot(root: ToolRootConfig): Root {
+	const compile = (globs?: string[]) => globs?.map(globToRegExp);
+	return {
+		dir: resolve(root.dir),
+		prefix: root.prefix,
+		include: compile(root.include),
+		exclude: compile(root.exclude),
+		env: root.env,
+		enable: compile(root.enable),
+		disable: compile(root.disable),
+	};
+}
+
+// Function to check a path relative to a root against its include and
+// exclude globs
+function isRootToolFile(root: Root, file: string) {
+	if (!isToolFile(file)) return false;
+	if (root.include && !root.include.some((glob) => glob.test(file))) {
+		return false;
+	}
+	return !root.exclude?.some((glob) => glob.test(file));
+}
+
+// Function to check a tool name against a root's enable and disable lists
+function isNameEnabled(root: Root, name: string) {
+	if (root.enable && !root.enable.some((glob) => glob.test(name))) {
+		return false;
+	}
+	return !root.disable?.some((glob) => glob.test(name));
+}
+
+// A tool file's location: absolute path, and path relative to its root
+interface ToolFile {
+	path: string;
+	file: string;
+	root: Root;
+}
+
+interface RegisteredEntry {
+	kind: EntryKind;
+	// Registry key: the name, or the URI for static resources
+	key: string;
+}
+
+// Request context for calls that don't come from an MCP client
+function localRequestExtra() {
+	return {
+		signal: new AbortController().signal,
+		requestId: 0,
+		sendNotification: async () => {},
+		sendRequest: async () => {
+			throw new Error("Not connected to an MCP client");
+		},
+	};
+}
+
+export function createLoader(options: LoaderOptions) {
+	const roots = (
+		options.roots ?? (options.dir ? [{ dir: options.dir }] : [])
+	).map(compileRoot);
+	if (roots.length === 0) {
+		throw new Error("createLoader needs a dir or at least one root");
+	}
+	const middleware = options.middleware ?? [];
+	const hotReload = options.hotReload ?? false;
+	const log = options.log ?? console.error;
+	const events = new EventEmitter<LoaderEvents>();
+
+	// Create MCP server with capabilities
+	const server = new McpServer(
+		{
+			name: "mcp-loader",
+			version: "0.1.0",
+			capabilities: hotReload
+				? {
+						tools: { listChanged: true },
+						resources: { listChanged: true },
+						prompts: { listChanged: true },
+					}
+				: undefined,
+		},
+		{
+			// Tools send log messages through context.log
+			capabilities: { logging: {} },
+		},
+	);
+
+	// Connected clients: the stdio server, or one server per HTTP session
+	const sessions = new Set<Server>();
+
+	// Kinds touched since the last list_changed notifications went out
+	const changedKinds = new Set<EntryKind>();
+
+	// Track registered tools, resources and prompts for cleanup, keyed by
+	// absolute file path
+	const registeredTools = new Map<string, RegisteredEntry[]>();
+
+	// Discovered tools by name
+	const loadedTools = new Map<string, LoadedTool>();
+
+	// Problems found in each tool file on its last load, keyed by absolute path
+	const fileProblems = new Map<string, LoadProblem[]>();
+
+	// Files with exports refused because another file had the name first. They
+	// are retried after every reload, in case the other file gave it up.
+	const collidedFiles = new Set<string>();
+
+	// Local files each tool file imports, directly or transitively, keyed by
+	// tool file (all absolute paths)
+	const toolDependencies = new Map<string, Set<string>>();
+
+	// Watchers for folders outside every root holding dependencies or config
+	// files
+	const externalWatchers = new Map<string, FSWatcher>();
+
+	// .env files at the project root, loaded into process.env
+	const envFiles = createEnvFiles(process.cwd(), log);
+
+	// One recursive watcher per root
+	const watchers: FSWatcher[] = [];
+	let reloadTimeout: NodeJS.Timeout | null = null;
+	let scheduleReload: ((files: string[]) => void) | null = null;
+
+	if (hotReload && !enableFreshLocalImports()) {
+		log(
+			"Module hooks unavailable: restart to pick up changes to helper modules",
+		);
+	}
+
+	// Function to find the root a path belongs to; the innermost one when
+	// roots are nested
+	function rootOf(path: string) {
+		let found: Root | undefined;
+		for (const root of roots) {
+			const file = relative(root.dir, path);
+			if (
+				!file.startsWith("..") &&
+				(!found || root.dir.length > found.dir.length)
+			) {
+				found = root;
+			}
+		}
+		return found;
+	}
+
+	// Function to locate a path within its root
+	function toToolFile(path: string): ToolFile | undefined {
+		const root = rootOf(path);
+		if (!root) return undefined;
+		return { path, file: toRelativePath(relative(root.dir, path)), root };
+	}
+
+	// Function to check a log message against the level the client set with
+	// logging/setLevel. Each session's server keeps the levels it was sent,
+	// keyed by transport session ID.
+	function isLogIgnored(level: LogLevel, sessionId?: string) {
+		return Array.from(sessions).some((session) =>
+			(session as any).isMessageIgnored(level, sessionId),
+		);
+	}
+
+	// Function to build the environment a root's tools see: only the
+	// allowlisted variables that are set, or everything without an allowlist.
+	// Unset keys are left out: workers would turn them into "undefined".
+	function envFor(root: Root) {
+		if (!root.env) return process.env;
+		return Object.fromEntries(
+			root.env.flatMap((key) =>
+				process.env[key] === undefined ? [] : [[key, process.env[key]]],
+			),
+		);
+	}
+
+	// Function to shorten paths in log messages
+	function displayPath(path: string) {
+		return toRelativePath(relative(process.cwd(), path)) || ".";
+	}
+
+	// McpServer installs the request handlers for a kind on its first
+	// registration, which is refused once connected. Install them up front so
+	// hot reload can add the first resource or prompt later on, and HTTP
+	// sessions can copy them.
+	(server as any).setToolRequestHandlers();
+	(server as any).setResourceRequestHandlers();
+	(server as any).setPromptRequestHandlers();
+
+	// McpServer notifies clients on every registration. Reloads notify once
+	// per batch instead (see sendListChanged).
+	server.sendToolListChanged = () => {};
+	server.sendResourceListChanged = () => {};
+	server.sendPromptListChanged = () => {};
+
+	// Replace McpServer's tools/call handler: it rejects invalid arguments with
+	// a protocol error before the tool runs, but the model should get them back
+	// as a readable error result. Our tool callbacks validate arguments
+	// themselves.
+	server.server.setRequestHandler(
+		CallToolRequestSchema,
+		async (request, extra) => {
+			const tool = (server as any)._registeredTools[request.params.name];
+			if (!tool) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Tool ${request.params.name} not found`,
+				);
+			}
+			if (!tool.enabled) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Tool ${request.params.name} disabled`,
+				);
+			}
+			return tool.callback(request.params.arguments ?? {}, extra);
+		},
+	);
+
+	// Function to record and log a problem with a file
+	function reportProblem(
+		toolFile: ToolFile,
+		name: string | undefined,
+		problem: Problem,
+	) {
+		const problems = fileProblems.get(toolFile.path) ?? [];
+		problems.push({
+			...problem,
+			dir: toolFile.root.dir,
+			file: toolFile.file,
+			name,
+		});
+		fileProblems.set(toolFile.path, problems);
+		log(
+			`[${problem.severity}] ${displayPath(toolFile.path)}${name ? ` (${name})` : ""}: ${problem.message}`,
+		);
+	}
+
+	// Function to refuse a registration whose name (or URI) another file
+	// already registered, instead of letting it replace the existing one
+	function isTaken(
+		kind: EntryKind,
+		key: string,
+		toolFile: ToolFile,
+		name: string,
+	) {
+		if (!(server as any)[serverRegistries[kind]][key]) return false;
+
+		const owner = Array.from(registeredTools).find(([, entries]) =>
+			entries.some((entry) => entry.kind === kind && entry.key === key),
+		)?.[0];
+		reportProblem(toolFile, name, {
+			severity: "error",
+			message: `${entryLabels[kind]} ${key} is already registered by ${owner ? displayPath(owner) : "another file"}; rename one of them`,
+		});
+		collidedFiles.add(toolFile.path);
+		return true;
+	}
+
+	// Function to track a registration for a file
+	function trackEntry(path: string, kind: EntryKind, key: string) {
+		if (!registeredTools.has(path)) {
+			registeredTools.set(path, []);
+		}
+		registeredTools.get(path)!.push({ kind, key });
+		changedKinds.add(kind);
+	}
+
+	// Function to unregister tools, resources and prompts from a file
+	function unregisterFileTools(path: string) {
+		const entries = registeredTools.get(path);
+		fileProblems.delete(path);
+		collidedFiles.delete(path);
+
+		if (entries) {
+			log(
+				`Unregistering from ${displayPath(path)}: ${entries.map((entry) => entry.key).join(", ")}`,
+			);
+			// Access the internal registries of McpServer to remove entries
+			// This is a workaround since MCP SDK doesn't provide an unregister method
+			entries.forEach(({ kind, key }) => {
+				const registry = (server as any)[serverRegistries[kind]];
+				if (registry) {
+					delete registry[key];
+				}
+				changedKinds.add(kind);
+
+				const tool = kind === "tool" ? loadedTools.get(key) : undefined;
+				if (tool) {
+					loadedTools.delete(key);
+					events.emit("unload", tool);
+				}
+			});
+			registeredTools.delete(path);
+		}
+	}
+
+	// Function to unregister tools from every file below a folder
+	function unregisterFolderTools(folder: string) {
+		const paths = new Set([...registeredTools.keys(), ...fileProblems.keys()]);
+		for (const path of paths) {
+			if (path.startsWith(`${folder}${sep}`)) {
+				unregisterFileTools(path);
+			}
+		}
+	}
+
+	// Function to register a tool with the server
+	function registerTool(
+		name: string,
+		tool: ToolDefinition,
+		toolFile: ToolFile,
+		source: ExportSource,
+	) {
+		const { root } = toolFile;
+		const enabled =
+			typeof tool.enabled === "function" ? tool.enabled() : tool.enabled;
+		if (enabled === false || !isNameEnabled(root, name)) {
+			log(`Skipping disabled tool: ${name}`);
+			return;
+		}
+		if (isTaken("tool", name, toolFile, name)) return;
+
+		// Track the tool
+		trackEntry(toolFile.path, "tool", name);
+
+		const schema =
+			tool.args && Object.keys(tool.args).length > 0 ? tool.args : undefined;
+		log(`Registering tool: ${name}`);
+
+		const timeoutMs = tool.timeoutMs ?? options.timeoutMs;
+		const limiter = tool.concurrency
+			? createLimiter(tool.concurrency)
+			: undefined;
+
+		// Arguments arrive unvalidated (see the tools/call handler above) so
+		// validation failures can be returned as error results
+		server.registerTool(
+			name,
+			{
+				title: tool.title,
+				description: tool.description,
+				inputSchema: schema as any,
+				outputSchema: tool.output as any,
+				annotations: tool.annotations as any,
+			},
+			(async (args: unknown, extra: any) => {
+				try {
+					let parsedArgs: unknown = {};
+					if (schema) {
+						const parseResult = await z.object(schema).safeParseAsync(args);
+						if (!parseResult.success) {
+							return errorResult(
+								`Invalid arguments for tool ${name}:\n${formatError(parseResult.error)}`,
+							);
+						}
+						parsedArgs = parseResult.data;
+					}
+					const result = await executeTool(
+						(signal) => {
+							const env = envFor(root);
+							const context = createToolContext(
+								extra,
+								signal,
+								name,
+								env,
+								isLogIgnored,
+							);
+							const call = { name, args: parsedArgs as any, context };
+							return runMiddleware(middleware, call, ({ args }) =>
+								tool.isolate
+									? runIsolated({
+											name,
+											...source,
+											args,
+											context,
+											env: root.env ? env : undefined,
+										})
+									: tool.execute(args, context),
+							);
+						},
+						{ name, timeoutMs, signal: extra.signal, limiter },
+					);
+					return await toToolResult(name, result, tool.output);
+				} catch (e) {
+					return errorResult(formatError(e));
+				}
+			}) as any,
+		);
+
+		const loaded: LoadedTool = {
+			name,
+			title: tool.title,
+			description: tool.description,
+			annotations: tool.annotations,
+			dir: root.dir,
+			file: toolFile.file,
+			inputSchema: z.toJSONSchema(z.object(schema ?? {})) as any,
+			outputSchema: tool.output
+				? (z.toJSONSchema(z.object(tool.output)) as any)
+				: undefined,
+		};
+		loadedTools.set(name, loaded);
+		events.emit("load", loaded);
+	}
+
+	// Function to register a resource with the server
+	function registerResource(
+		name: string,
+		resource: ResourceDefinition,
+		toolFile: ToolFile,
+	) {
+		const { path, root } = toolFile;
+		if (isTaken("resource", resource.uri, toolFile, name)) return;
+		trackEntry(path, "resource", resource.uri);
+		log(`Registering resource: ${name} (${resource.uri})`);
+
+		server.registerResource(
+			name,
+			resource.uri,
+			{
+				title: resource.title,
+				description: resource.description,
+				mimeType: resource.mimeType,
+			},
+			async (uri: URL, extra: any) => {
+				const context = createToolContext(
+					extra,
+					extra.signal,
+					name,
+					envFor(root),
+					isLogIgnored,
+				);
+				const result = await resource.read(uri, context);
+				return toResourceContents(uri, result, resource.mimeType);
+			},
+		);
+	}
+
+	// Function to register a resource template with the server
+	function registerResourceTemplate(
+		name: string,
+		template: ResourceTemplateDefinition,
+		toolFile: ToolFile,
+	) {
+		const { path, root } = toolFile;
+		if (isTaken("resourceTemplate", name, toolFile, name)) return;
+		trackEntry(path, "resourceTemplate", name);
+		log(`Registering resource template: ${name} (${template.uriTemplate})`);
+
+		const list = template.list;
+		server.registerResource(
+			name,
+			new ResourceTemplate(template.uriTemplate, {
+				list: list
+					? async (extra: any) => ({
+							resources: (await list(
+								createToolContext(
+									extra,
+									extra.signal,
+									name,
+									envFor(root),
+									isLogIgnored,
+								),
+							)) as any[],
+						})
+					: undefined,
+			}),
+			{
+				title: template.title,
+				description: template.description,
+				mimeType: template.mimeType,
+			},
+			async (uri: URL, variables, extra: any) => {
+				const context = createToolContext(
+					extra,
+					extra.signal,
+					name,
+					envFor(root),
+					isLogIgnored,
+				);
+				const result = await template.read(uri, variables, context);
+				return toResourceContents(uri, result, template.mimeType);
+			},
+		);
+	}
+
+	// Function to register a prompt with the server
+	function registerPrompt(
+		name: string,
+		prompt: PromptDefinition,
+		toolFile: ToolFile,
+	) {
+		const { path, root } = toolFile;
+		if (isTaken("prompt", name, toolFile, name)) return;
+		trackEntry(path, "prompt", name);
+
+		const schema =
+			prompt.args && Object.keys(prompt.args).length > 0
+				? prompt.args
+				: undefined;
+		log(`Registering prompt: ${name}`);
+
+		server.registerPrompt(
+			name,
+			{
+				title: prompt.title,
+				description: prompt.description,
+				argsSchema: schema as any,
+			},
+			(async (...params: any[]) => {
+				// For prompts with no args, callback only receives 'extra' parameter
+				const [args, extra] = schema ? params : [{}, params[0]];
+				const context = createToolContext(
+					extra,
+					extra.signal,
+					name,
+					envFor(root),
+					isLogIgnored,
+				);
+				const result = await prompt.render(args, context);
+				return toPromptMessages(result);
+			}) as any,
+		);
+	}
+
+	// Function to register whatever kind of definition an export holds
+	function registerExport(
+		name: string,
+		value: unknown,
+		toolFile: ToolFile,
+		source: ExportSource,
+	) {
+		// Malformed tools, names clients reject and schemas clients can't read
+		const problems = checkTool(name, value);
+		problems.forEach((problem) => reportProblem(toolFile, name, problem));
+		if (problems.some((problem) => problem.severity === "error")) return;
+
+		if (isToolDefinition(value)) {
+			registerTool(name, value, toolFile, source);
+		} else if (isPromptDefinition(value)) {
+			registerPrompt(name, value, toolFile);
+		} else if (isResourceDefinition(value)) {
+			registerResource(name, value, toolFile);
+		} else if (isResourceTemplateDefinition(value)) {
+			registerResourceTemplate(name, value, toolFile);
+		}
+	}
+
+	// Function to load a single tool file. Files reloaded in the same batch
+	// share a version so they also share fresh instances of their helpers.
+	async function loadToolFile(path: string, version = Date.now()) {
+		const toolFile = toToolFile(path);
+		if (!toolFile || !isRootToolFile(toolFile.root, toolFile.file)) return;
+
+		const { file, root } = toolFile;
+		const baseName = root.prefix
+			? `${root.prefix}_${toolBaseName(file)}`
+			: toolBaseName(file);
+
+		// First unregister any existing tools from this file
+		unregisterFileTools(path);
+
+		try {
+			// Check if file still exists (for delete events)
+			await stat(path);
+
+			// Track local imports so helper changes reload this file too
+			if (hotReload) {
+				const dependencies = await findLocalDependencies(path);
+				toolDependencies.set(path, dependencies);
+				evictLocalImports(dependencies, version);
+				watchExternalFiles();
+			}
+
+			// Add cache buster for dynamic imports when hot reloading
+			const importUrl = toImportUrl(path, hotReload ? version : undefined);
+			const module = await import(importUrl);
+
+			// Handle default export
+			if (module.default) {
+				registerExport(baseName, module.default, toolFile, {
+					moduleUrl: importUrl,
+					exportName: "default",
+				});
+			}
+
+			// Handle named exports
+			Object.entries(module).forEach(([key, value]) => {
+				if (key !== "default") {
+					registerExport(`${baseName}_${key}`, value, toolFile, {
+						moduleUrl: importUrl,
+						exportName: key,
+					});
+				}
+			});
+		} catch (e: any) {
+			if (e.code === "ENOENT") {
+				log(`File deleted: ${displayPath(path)}`);
+				toolDependencies.delete(path);
+				watchExternalFiles();
+			} else {
+				reportProblem(toolFile, undefined, {
+					severity: "error",
+					message: `Failed to load: ${e.message || e}`,
+				});
+			}
+		}
+	}
+
+	// Function to list tool files below a folder of a root (relative to the
+	// root), recursively. Returns absolute paths.
+	async function findToolFiles(root: Root, folder = ""): Promise<string[]> {
+		const entries = await readdir(join(root.dir, folder), {
+			withFileTypes: true,
+		});
+		const files: string[] = [];
+		for (const entry of entries) {
+			const file = folder ? `${folder}/${entry.name}` : entry.name;
+			if (isIgnoredPath(file)) continue;
+			if (entry.isDirectory()) {
+				files.push(...(await findToolFiles(root, file)));
+			} else if (isRootToolFile(root, file)) {
+				files.push(join(root.dir, file));
+			}
+		}
+		return files;
+	}
+
+	// Function to list the tool files of every root
+	async function findAllToolFiles() {
+		const files: string[] = [];
+		for (const root of roots) {
+			fileProblems.delete(root.dir);
+			try {
+				files.push(...(await findToolFiles(root)));
+			} catch (e: any) {
+				// A missing root is most likely a typo, so it counts as an error
+				reportProblem({ path: root.dir, file: "", root }, undefined, {
+					severity: "error",
+					message: `Can't read tool folder: ${e.message || e}`,
+				});
+			}
+		}
+		return files;
+	}
+
+	// Function to (re)load every tool file below a folder. Tools from files
+	// that no longer exist (e.g. a renamed or deleted folder) are unregistered.
+	async function loadToolFolder(folder: string) {
+		unregisterFolderTools(folder);
+		const toolFile = toToolFile(folder);
+		if (!toolFile) return;
+		try {
+			const files = await findToolFiles(toolFile.root, toolFile.file);
+			for (const file of files) {
+				await loadToolFile(file);
+			}
+		} catch (e: any) {
+			if (e.code !== "ENOENT" && e.code !== "ENOTDIR") {
+				log(`Failed to load folder ${displayPath(folder)}:`, e.message || e);
+			}
+		}
+	}
+
+	// Function to load all tools
+	async function loadAllTools() {
+		for (const file of await findAllToolFiles()) {
+			await loadToolFile(file);
+		}
+	}
+
+	// Function to notify every connected client that the tool list has
+	// changed, and about resources and prompts only when they changed
+	async function sendListChanged() {
+		const resourcesChanged =
+			changedKinds.has("resource") || changedKinds.has("resourceTemplate");
+		const promptsChanged = changedKinds.has("prompt");
+		changedKinds.clear();
+
+		for (const session of sessions) {
+			try {
+				log("Sending tools/list_changed notification");
+				await session.sendToolListChanged();
+				if (resourcesChanged) {
+					log("Sending resources/list_changed notification");
+					await session.sendResourceListChanged();
+				}
+				if (promptsChanged) {
+					log("Sending prompts/list_changed notification");
+					await session.sendPromptListChanged();
+				}
+			} catch (e) {
+				log("Failed to send list_changed notification:", e);
+			}
+		}
+	}
+
+	// Function to find the tool files that import a file, directly or
+	// transitively
+	function dependentsOf(path: string) {
+		return Array.from(toolDependencies)
+			.filter(([, dependencies]) => dependencies.has(path))
+			.map(([file]) => file);
+	}
+
+	// Function to schedule reloads for whatever a changed file affects:
+	// everything for config files, the file itself for tool files, and every
+	// tool importing it for helpers
+	async function handleFileChange(path: string) {
+		if (isConfigFile(path)) {
+			log(`[File Watcher] Config changed, reloading all tools: ${path}`);
+			if (envFiles.isEnvFile(path)) {
+				await envFiles.load();
+			}
+			scheduleReload?.(await findAllToolFiles());
+			return;
+		}
+
+		const dependents = dependentsOf(path);
+		if (dependents.length > 0) {
+			log(
+				`[File Watcher] Dependency changed: ${path}, reloading ${dependents.map(displayPath).join(", ")}`,
+			);
+			scheduleReload?.(dependents);
+		}
+
+		const toolFile = toToolFile(path);
+		if (!toolFile?.file || isIgnoredPath(toolFile.file)) return;
+
+		// Anything without a script extension may be a folder
+		if (
+			isRootToolFile(toolFile.root, toolFile.file) ||
+			!/\.[^/]+$/.test(toolFile.file)
+		) {
+			log(`[File Watcher] Scheduling reload for: ${displayPath(path)}`);
+			scheduleReload?.([path]);
+		}
+	}
+
+	// Function to watch a folder outside the roots for changes to dependencies
+	// and config files. Folders are watched rather than the files themselves
+	// since editors often save by replacing the file.
+	function watchExternal(folder: string) {
+		if (externalWatchers.has(folder)) return;
+		try {
+			const folderWatcher = watch(folder, (eventType, filename) => {
+				if (!filename) return;
+				const path = join(folder, filename);
+				if (!isConfigFile(path) && dependentsOf(path).length === 0) return;
+				log(`[File Watcher] Event: ${eventType}, Filename: ${path}`);
+				handleFileChange(path);
+			});
+			externalWatchers.set(folder, folderWatcher);
+		} catch (e: any) {
+			log(`Failed to watch ${folder}:`, e.message || e);
+		}
+	}
+
+	// Function to keep watchers in sync with the dependencies outside the roots
+	function watchExternalFiles() {
+		if (watchers.length === 0) return;
+
+		// Config files at the project root, and folders holding dependencies
+		const folders = new Set<string>();
+		if (!rootOf(process.cwd())) {
+			folders.add(process.cwd());
+		}
+		for (const dependencies of toolDependencies.values()) {
+			for (const dependency of dependencies) {
+				if (!rootOf(dependency)) {
+					folders.add(dirname(dependency));
+				}
+			}
+		}
+
+		for (const [folder, folderWatcher] of externalWatchers) {
+			if (!folders.has(folder)) {
+				folderWatcher.close();
+				externalWatchers.delete(folder);
+			}
+		}
+		folders.forEach(watchExternal);
+	}
+
+	// Function to watch every root and reload changed files
+	function startWatcher() {
+		log("Setting up file watcher...");
+
+		// Debounce mechanism to avoid multiple reloads: a change and every
+		// reload it cascades into go out as one batch and one notification
+		const pendingReloads = new Set<string>();
+
+		scheduleReload = (files: string[]) => {
+			files.forEach((file) => pendingReloads.add(file));
+			if (reloadTimeout) {
+				clearTimeout(reloadTimeout);
+			}
+
+			reloadTimeout = setTimeout(async () => {
+				const files = Array.from(pendingReloads);
+				pendingReloads.clear();
+				const version = Date.now();
+
+				for (const file of files) {
+					// Paths are absolute: check them relative to their root, where
+					// an ignored segment (e.g. ".claude") above it doesn't count
+					const toolFile = toToolFile(file);
+					if (toolFile && isRootToolFile(toolFile.root, toolFile.file)) {
+						await loadToolFile(file, version);
+					} else {
+						// Folder events (create, rename, delete) arrive as a single
+						// event for the folder path, so resync everything below it
+						await loadToolFolder(file);
+					}
+				}
+				for (const file of Array.from(collidedFiles)) {
+					if (!files.includes(file)) {
+						await loadToolFile(file, version);
+					}
+				}
+
+				if (files.length > 0) {
+					await sendListChanged();
+					events.emit("reload", files.map(displayPath));
+				}
+			}, 100); // 100ms debounce
+		};
+
+		for (const root of roots) {
+			try {
+				watchers.push(
+					watch(root.dir, { recursive: true }, (eventType, filename) => {
+						log(`[File Watcher] Event: ${eventType}, Filename: ${filename}`);
+						if (!filename) return;
+						handleFileChange(join(root.dir, filename));
+					}),
+				);
+			} catch (e: any) {
+				log(`Failed to watch ${displayPath(root.dir)}:`, e.message || e);
+			}
+		}
+		watchExternalFiles();
+
+		log("File watcher active");
+	}
+
+	return {
+		dirs: roots.map((root) => root.dir),
+		hotReload,
+		server,
+		sessions,
+
+		// Tools discovered so far
+		get tools(): LoadedTool[] {
+			return Array.from(loadedTools.values());
+		},
+
+		// Problems found in the currently loaded files
+		get problems(): LoadProblem[] {
+			return Array.from(fileProblems.values()).flat();
+		},
+
+		// Load .env files and everything below the roots, then watch them if
+		// hot reload is enabled
+		async load() {
+			await envFiles.load();
+			await loadAllTools();
+			changedKinds.clear();
+			if (hotReload && watchers.length === 0) {
+				startWatcher();
+			}
+		},
+
+		// Call a tool the way an MCP client would: arguments are validated and
+		// the result is formatted exactly like a tools/call response
+		async invoke(name: string, args: unknown = {}): Promise<CallToolResult> {
+			const tool = (server as any)._registeredTools[name];
+			if (!tool) {
+				throw new Error(`Tool ${name} not found`);
+			}
+			return tool.callback(args, localRequestExtra());
+		},
+
+		// Stop watching for changes
+		close() {
+			watchers.forEach((rootWatcher) => rootWatcher.close());
+			watchers.length = 0;
+			externalWatchers.forEach((fileWatcher) => fileWatcher.close());
+			externalWatchers.clear();
+			if (reloadTimeout) {
+				clearTimeout(reloadTimeout);
+				reloadTimeout = null;
+			}
+		},
+
+		on: events.on.bind(events),
+		once: events.once.bind(events),
+		off: events.off.bind(events),
+	};
+}
+
+export type Loader = ReturnType<typeof createLoader>;
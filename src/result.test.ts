@@ -0,0 +1,52 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+import { formatError, toToolResult } from "./result.ts";
+import { tool } from "./tool.ts";
+
+// Results as plain values, to compare with the helpers' content types
+async function format(result: unknown): Promise<unknown> {
+	return toToolResult("t", result);
+}
+
+test("formats strings, values and undefined", async () => {
+	expect(await format("hello")).toEqual({
+		content: [{ type: "text", text: "hello" }],
+	});
+	expect(await format({ a: 1 })).toEqual({
+		content: [{ type: "text", text: JSON.stringify({ a: 1 }, null, 2) }],
+	});
+	expect(await format(undefined)).toEqual({ content: [] });
+});
+
+test("passes content blocks and full results through", async () => {
+	const image = tool.image("aGk=", "image/png");
+	expect(await format(image)).toEqual({ content: [image] });
+	expect(await format([tool.text("a"), image])).toEqual({
+		content: [tool.text("a"), image],
+	});
+
+	const result = { content: [tool.text("failed")], isError: true };
+	expect(await format(result)).toBe(result);
+});
+
+test("validates output against the output schema", async () => {
+	const output = { count: z.number() };
+
+	expect(await toToolResult("t", { count: 2 }, output)).toEqual({
+		content: [{ type: "text", text: JSON.stringify({ count: 2 }, null, 2) }],
+		structuredContent: { count: 2 },
+	});
+
+	const invalid = await toToolResult("t", { count: "2" }, output);
+	expect(invalid.isError).toBe(true);
+	expect(invalid.content[0]).toMatchObject({
+		type: "text",
+		text: expect.stringContaining("Invalid output from tool t"),
+	});
+});
+
+test("describes errors", () => {
+	expect(formatError(new Error("boom"))).toBe("boom");
+	expect(formatError(new TypeError("bad"))).toBe("TypeError: bad");
+	expect(formatError("plain")).toBe("plain");
+});
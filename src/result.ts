@@ -0,0 +1,144 @@
+import {
+	type CallToolResult,
+	ContentBlockSchema,
+} from "@socotra/modelcontextprotocol-sdk/types.js";
+import { z } from "zod";
+
+// Type guard to check if something is an MCP content block
+// (e.g. built with tool.text(), tool.image(), tool.resource())
+function isContentBlock(value: unknown) {
+	return ContentBlockSchema.safeParse(value).success;
+}
+
+// Type guard to check if something already is a full tool result
+function isCallToolResult(value: unknown): value is CallToolResult {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"content" in value &&
+		Array.isArray(value.content) &&
+		value.content.every(isContentBlock)
+	);
+}
+
+// Function to build an error result the model can read
+export function errorResult(message: string): CallToolResult {
+	return {
+		content: [{ type: "text", text: message }],
+		isError: true,
+	};
+}
+
+// Function to describe a thrown value or zod validation failure
+export function formatError(error: unknown): string {
+	if (error instanceof z.ZodError) {
+		return z.prettifyError(error);
+	}
+	if (error instanceof Error) {
+		return error.name && error.name !== "Error"
+			? `${error.name}: ${error.message}`
+			: error.message;
+	}
+	return String(error);
+}
+
+// Function to turn whatever execute returned into a tool result
+export async function toToolResult(
+	name: string,
+	result: unknown,
+	output?: Record<string, z.ZodTypeAny>,
+): Promise<CallToolResult> {
+	// Tools with an output schema return structured content
+	if (output) {
+		const parseResult = await z.object(output).safeParseAsync(result);
+		if (!parseResult.success) {
+			return errorResult(
+				`Invalid output from tool ${name}:\n${formatError(parseResult.error)}`,
+			);
+		}
+		return {
+			content: [
+				{ type: "text", text: JSON.stringify(parseResult.data, null, 2) },
+			],
+			structuredContent: parseResult.data,
+		};
+	}
+
+	if (isCallToolResult(result)) {
+		return result;
+	}
+	if (isContentBlock(result)) {
+		return { content: [result as CallToolResult["content"][number]] };
+	}
+	if (
+		Array.isArray(result) &&
+		result.length > 0 &&
+		result.every(isContentBlock)
+	) {
+		return { content: result };
+	}
+	if (result === undefined) {
+		return { content: [] };
+	}
+
+	return {
+		content: [
+			{
+				type: "text",
+				text:
+					typeof result === "string" ? result : JSON.stringify(result, null, 2),
+			},
+		],
+	};
+}
+
+// Function to turn a resource read result into MCP resource contents
+export function toResourceContents(uri: URL, result: unknown, mimeType?: string) {
+	if (
+		typeof result === "object" &&
+		result !== null &&
+		"contents" in result &&
+		Array.isArray(result.contents)
+	) {
+		return result as { contents: any[] };
+	}
+	if (result instanceof Uint8Array) {
+		return {
+			contents: [
+				{
+					uri: uri.href,
+					mimeType: mimeType ?? "application/octet-stream",
+					blob: Buffer.from(result).toString("base64"),
+				},
+			],
+		};
+	}
+	return {
+		contents: [
+			{
+				uri: uri.href,
+				mimeType:
+					mimeType ??
+					(typeof result === "string" ? "text/plain" : "application/json"),
+				text:
+					typeof result === "string" ? result : JSON.stringify(result, null, 2),
+			},
+		],
+	};
+}
+
+// Function to turn a prompt render result into MCP prompt messages
+export function toPromptMessages(result: unknown) {
+	const messages = Array.isArray(result)
+		? result
+		: [{ role: "user", content: result }];
+	return {
+		messages: messages.map((message: { role: string; content: unknown }) => ({
+			role: message.role as "user" | "assistant",
+			content:
+				typeof message.content === "string"
+					? { type: "text" as const, text: message.content }
+					: (message.content as any),
+		})),
+	};
+}
@@ -1,17 +1,250 @@
 import { z } from "zod";
 
+type ZodRawShape = { [k: string]: z.ZodTypeAny };
+
+export type LogLevel = "debug" | "info" | "warning" | "error";
+
+export interface SampleOptions {
+  prompt: string;
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export type ElicitResult<TShape extends ZodRawShape> =
+  | { action: "accept"; content: z.infer<z.ZodObject<TShape>> }
+  | { action: "decline" | "cancel" };
+
 export interface ToolContext {
-  [key: string]: unknown;
+  // Aborted when the client cancels the call or the tool times out
+  signal: AbortSignal;
+  // Set for HTTP sessions
+  sessionId?: string;
+  requestId: string | number;
+  // Report progress to the client (no-op unless the client asked for progress)
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+  // Send log messages to the client as MCP logging notifications
+  log: {
+    debug(message: string, data?: Record<string, unknown>): Promise<void>;
+    info(message: string, data?: Record<string, unknown>): Promise<void>;
+    warn(message: string, data?: Record<string, unknown>): Promise<void>;
+    error(message: string, data?: Record<string, unknown>): Promise<void>;
+  };
+  // Ask the client's LLM for a completion; resolves to the response text
+  sample(prompt: string | SampleOptions): Promise<string>;
+  // Environment variables this tool may read (the root's env allowlist)
+  env: Record<string, string | undefined>;
+  // Ask the user for structured input. Fields must be strings, numbers,
+  // booleans or enums.
+  elicit<TShape extends ZodRawShape>(message: string, schema: TShape): Promise<ElicitResult<TShape>>;
 }
 
-type ZodRawShape = { [k: string]: z.ZodTypeAny };
+// Prompt arguments are always strings in MCP
+type PromptArgsShape = { [k: string]: z.ZodString | z.ZodOptional<z.ZodString> };
+
+// What a resource can return: text, binary data or a JSON-serializable object
+export type ResourceContent = string | Uint8Array | object;
 
-export function tool<TArgs extends ZodRawShape = {}, TReturn = unknown>(config: {
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ResourceListEntry {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Content blocks a tool can return, singly or as an array
+export interface TextContent {
+  type: "text";
+  text: string;
+}
+
+export interface ImageContent {
+  type: "image";
+  data: string;
+  mimeType: string;
+}
+
+export interface AudioContent {
+  type: "audio";
+  data: string;
+  mimeType: string;
+}
+
+export interface EmbeddedResource {
+  type: "resource";
+  resource:
+    | { uri: string; mimeType?: string; text: string }
+    | { uri: string; mimeType?: string; blob: string };
+}
+
+export interface ResourceLink {
+  type: "resource_link";
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export type ContentBlock = TextContent | ImageContent | AudioContent | EmbeddedResource | ResourceLink;
+
+export interface ToolOptions {
+  // Fail the call with an error result after this long (overrides --timeout)
+  timeoutMs?: number;
+  // Run execute in a worker thread that is killed on timeout or cancellation.
+  // Args and the result must be serializable; context.elicit() is not
+  // available in the worker.
+  isolate?: boolean;
+  // Max calls running at once; further calls wait for a free slot
+  concurrency?: number;
+  // Human-readable name shown by clients
+  title?: string;
+  annotations?: ToolAnnotations;
+  // Register the tool only when true; evaluated on every (re)load
+  enabled?: boolean | (() => boolean);
+}
+
+// Hints for clients about what a tool does (see MCP tool annotations)
+export interface ToolAnnotations {
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export function tool<TArgs extends ZodRawShape = {}, TOutput extends ZodRawShape = {}>(config: ToolOptions & {
+  description: string;
+  args?: TArgs;
+  output: TOutput;
+  execute: (
+    args: z.infer<z.ZodObject<TArgs>>,
+    context: ToolContext,
+  ) => Promise<z.infer<z.ZodObject<TOutput>>> | z.infer<z.ZodObject<TOutput>>;
+}): typeof config;
+export function tool<TArgs extends ZodRawShape = {}, TReturn = unknown>(config: ToolOptions & {
   description: string;
   args?: TArgs;
-  execute: (args: z.infer<z.ZodObject<TArgs>>, context?: ToolContext) => Promise<TReturn> | TReturn;
+  execute: (args: z.infer<z.ZodObject<TArgs>>, context: ToolContext) => Promise<TReturn> | TReturn;
+}): typeof config;
+export function tool(config: unknown) {
+  return config;
+}
+
+tool.schema = z;
+
+const toBase64 = (data: Uint8Array | string) =>
+  typeof data === "string" ? data : Buffer.from(data).toString("base64");
+
+tool.text = (text: string): TextContent => ({ type: "text", text });
+
+// Binary data may be passed as a Buffer/Uint8Array or an already base64-encoded string
+tool.image = (data: Uint8Array | string, mimeType: string): ImageContent => ({
+  type: "image",
+  data: toBase64(data),
+  mimeType,
+});
+
+tool.audio = (data: Uint8Array | string, mimeType: string): AudioContent => ({
+  type: "audio",
+  data: toBase64(data),
+  mimeType,
+});
+
+tool.resource = (
+  config: { uri: string; mimeType?: string } & ({ text: string } | { blob: Uint8Array | string }),
+): EmbeddedResource => ({
+  type: "resource",
+  resource:
+    "text" in config
+      ? { uri: config.uri, mimeType: config.mimeType, text: config.text }
+      : { uri: config.uri, mimeType: config.mimeType, blob: toBase64(config.blob) },
+});
+
+tool.resourceLink = (config: Omit<ResourceLink, "type">): ResourceLink => ({
+  type: "resource_link",
+  ...config,
+});
+
+export function resource(config: {
+  uri: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  read: (uri: URL, context: ToolContext) => Promise<ResourceContent> | ResourceContent;
 }) {
   return config;
 }
 
-tool.schema = z;
\ No newline at end of file
+export function resourceTemplate(config: {
+  uriTemplate: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  list?: (context: ToolContext) => Promise<ResourceListEntry[]> | ResourceListEntry[];
+  read: (
+    uri: URL,
+    variables: Record<string, string | string[]>,
+    context: ToolContext,
+  ) => Promise<ResourceContent> | ResourceContent;
+}) {
+  return config;
+}
+
+export function prompt<TArgs extends PromptArgsShape = {}>(config: {
+  title?: string;
+  description?: string;
+  args?: TArgs;
+  render: (
+    args: z.infer<z.ZodObject<TArgs>>,
+    context: ToolContext,
+  ) => Promise<string | PromptMessage[]> | string | PromptMessage[];
+}) {
+  return config;
+}
+
+prompt.schema = z;
+
+// A tool call as seen by middleware. Middleware may replace args before
+// calling next(), inspect or replace the result, or throw to reject the call.
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  context: ToolContext;
+}
+
+export type Middleware = (call: ToolCall, next: () => Promise<unknown>) => Promise<unknown>;
+
+export interface ToolRootConfig {
+  // Folder to load from, relative to the config file
+  dir: string;
+  // Prepended to every name from this folder: "git" -> "git_status"
+  prefix?: string;
+  // Globs matched against file paths relative to dir
+  include?: string[];
+  exclude?: string[];
+  // Environment variables tools from this folder get in context.env (and in
+  // process.env for isolated tools); all variables when omitted
+  env?: string[];
+  // Tool names (globs) to register; all when omitted
+  enable?: string[];
+  // Tool names (globs) to skip
+  disable?: string[];
+}
+
+export interface LoaderConfig {
+  roots?: ToolRootConfig[];
+  // Run around every tool call, outermost first
+  middleware?: Middleware[];
+  // Default timeout for tools that don't set timeoutMs
+  timeoutMs?: number;
+}
+
+export function defineConfig(config: LoaderConfig) {
+  return config;
+}
@@ -0,0 +1,71 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+import { tool } from "./tool.ts";
+import {
+	checkTool,
+	checkToolName,
+	MAX_DESCRIPTION_LENGTH,
+} from "./validation.ts";
+
+const execute = async () => "ok";
+
+function messages(name: string, value: unknown) {
+	return checkTool(name, value).map(
+		(problem) => `${problem.severity}: ${problem.message}`,
+	);
+}
+
+test("accepts valid tools", () => {
+	const valid = tool({
+		description: "Add",
+		args: { a: tool.schema.number() },
+		execute,
+	});
+	expect(checkTool("math_add", valid)).toEqual([]);
+});
+
+test("ignores exports that aren't tools", () => {
+	expect(checkTool("x", "text")).toEqual([]);
+	expect(checkTool("x", { uri: "docs://a", read: execute })).toEqual([]);
+	expect(
+		checkTool("x", { description: "Prompt", args: {}, render: execute }),
+	).toEqual([]);
+});
+
+test("rejects names clients don't accept", () => {
+	expect(checkToolName("db_query-2")).toEqual([]);
+	expect(checkToolName("my.tool")).toHaveLength(1);
+	expect(checkToolName("my tool")).toHaveLength(1);
+	expect(checkToolName("a".repeat(65))).toHaveLength(1);
+});
+
+test("reports exports that look like tools but aren't valid", () => {
+	expect(messages("x", { description: "X", execute: "nope" })).toEqual([
+		"error: Export looks like a tool but is not valid: execute must be a function",
+	]);
+	expect(messages("x", { args: {}, description: 1, execute })).toEqual([
+		"error: Export looks like a tool but is not valid: description must be a string",
+	]);
+});
+
+test("checks descriptions", () => {
+	expect(messages("x", { description: " ", execute })).toEqual([
+		"error: Description is empty",
+	]);
+	const long = "x".repeat(MAX_DESCRIPTION_LENGTH + 1);
+	expect(messages("x", { description: long, execute })).toEqual([
+		`warning: Description is ${long.length} characters long (over ${MAX_DESCRIPTION_LENGTH})`,
+	]);
+});
+
+test("reports schemas that can't be converted to JSON Schema", () => {
+	const problems = checkTool("x", {
+		description: "X",
+		args: { when: z.date() },
+		execute,
+	});
+	expect(problems).toHaveLength(1);
+	expect(problems[0]!.message).toStartWith(
+		"args can't be converted to JSON Schema",
+	);
+});
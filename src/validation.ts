@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { isToolDefinition } from "./definitions.ts";
+
+// Tool names clients accept: letters, digits, "_" and "-", at most 64
+// characters (the strictest common limit among MCP clients)
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Longer descriptions still work but cost context on every request
+export const MAX_DESCRIPTION_LENGTH = 1024;
+
+export interface Problem {
+	severity: "error" | "warning";
+	message: string;
+}
+
+// Type guard to check if an export was probably meant to be a tool: it has an
+// execute, or a description next to args (and is not a prompt)
+function looksLikeTool(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		("execute" in value ||
+			("description" in value && "args" in value && !("render" in value)))
+	);
+}
+
+// Function to check that a zod shape converts to JSON Schema, which clients
+// need to call the tool
+function checkSchema(label: string, shape: unknown): Problem[] {
+	if (shape === undefined) return [];
+	try {
+		z.toJSONSchema(z.object(shape as Record<string, z.ZodTypeAny>));
+		return [];
+	} catch (e: any) {
+		return [
+			{
+				severity: "error",
+				message: `${label} can't be converted to JSON Schema: ${e?.message ?? e}`,
+			},
+		];
+	}
+}
+
+// Function to check a tool name against what MCP clients accept
+export function checkToolName(name: string): Problem[] {
+	if (TOOL_NAME.test(name)) return [];
+	return [
+		{
+			severity: "error",
+			message: `Invalid tool name "${name}": use only letters, digits, "_" and "-" (max 64 characters); rename the file or export`,
+		},
+	];
+}
+
+// Function to check an export that is, or looks like, a tool. Errors mean the
+// tool must not be registered; warnings are only reported.
+export function checkTool(name: string, value: unknown): Problem[] {
+	if (!looksLikeTool(value)) return [];
+
+	if (!isToolDefinition(value)) {
+		const reasons = [];
+		if (typeof value.description !== "string") {
+			reasons.push("description must be a string");
+		}
+		if (typeof value.execute !== "function") {
+			reasons.push("execute must be a function");
+		}
+		return [
+			{
+				severity: "error",
+				message: `Export looks like a tool but is not valid: ${reasons.join(", ")}`,
+			},
+		];
+	}
+
+	const problems = [
+		...checkToolName(name),
+		...checkSchema("args", value.args),
+		...checkSchema("output", value.output),
+	];
+	const description = value.description.trim();
+	if (!description) {
+		problems.push({ severity: "error", message: "Description is empty" });
+	} else if (description.length > MAX_DESCRIPTION_LENGTH) {
+		problems.push({
+			severity: "warning",
+			message: `Description is ${description.length} characters long (over ${MAX_DESCRIPTION_LENGTH})`,
+		});
+	}
+	return problems;
+}